@@ -0,0 +1,143 @@
+/**
+ * @file        src/client/effects/ProjectileVisuals.ts
+ * @module      ProjectileVisuals
+ * @layer       Client
+ * @description Renders server-simulated projectiles locally. The server replicates launch and end
+ *              events, plus path corrections for homing and ricochets; each client moves its own
+ *              copy of the visual along the same path. Visual parts are pooled per projectile key.
+ */
+
+import { RunService, TweenService, Workspace } from "@rbxts/services";
+import { ProjectileCatalog, ProjectileKey, ProjectileKeys } from "shared/definitions/Projectile";
+import { InstancePool, InstancePoolMetrics } from "shared/helpers";
+import { ClientOn } from "client/network/ClientNetwork";
+
+interface ProjectileVisual {
+	readonly key: ProjectileKey;
+	readonly part: BasePart;
+	readonly gravity: Vector3;
+	readonly tween: Tween;
+	/** Path since the last launch or correction, in server time */
+	origin: Vector3;
+	velocity: Vector3;
+	since: number;
+}
+
+const visuals = new Map<string, ProjectileVisual>();
+const pools = new Map<ProjectileKey, InstancePool<BasePart>>();
+
+/** Idle visuals kept per projectile key */
+const POOL_SIZE = 16;
+const POOL_PREWARM = 4;
+
+function getVisualsFolder(): Folder {
+	let folder = Workspace.FindFirstChild("ProjectileVisuals") as Folder | undefined;
+	if (!folder) {
+		folder = new Instance("Folder");
+		folder.Name = "ProjectileVisuals";
+		folder.Parent = Workspace;
+	}
+	return folder;
+}
+
+function getPool(key: ProjectileKey): InstancePool<BasePart> | undefined {
+	const existing = pools.get(key);
+	if (existing) return existing;
+
+	const template = ProjectileCatalog[key].part;
+	if (!template) return undefined;
+
+	const pool = new InstancePool<BasePart>({
+		create: () => {
+			const part = template.Clone();
+			part.Anchored = true;
+			part.CanCollide = false;
+			part.CanQuery = false;
+			part.CanTouch = false;
+			return part;
+		},
+		// The pulse tween leaves the part mid-grow
+		reset: (part) => {
+			part.Size = template.Size;
+		},
+		maxSize: POOL_SIZE,
+	});
+	pools.set(key, pool);
+	return pool;
+}
+
+function spawnVisual(id: string, key: ProjectileKey, origin: Vector3, velocity: Vector3, spawnedAt: number) {
+	const definition = ProjectileCatalog[key];
+	const pool = getPool(key);
+	if (!pool) {
+		warn(`ProjectileVisuals: No visual part for ${key}`);
+		return;
+	}
+
+	const part = pool.acquire();
+	part.Name = `${key}_${id}`;
+	part.CFrame = CFrame.lookAt(origin, origin.add(velocity));
+	part.Parent = getVisualsFolder();
+
+	// Pulse the visual with the definition's tween (repeats until the projectile ends)
+	const tween = TweenService.Create(part, definition.tweenInfo, { Size: part.Size.mul(1.2) });
+	tween.Play();
+
+	const gravity = new Vector3(0, -(definition.gravity ?? 0), 0);
+	visuals.set(id, { key, part, gravity, tween, origin, velocity, since: spawnedAt });
+}
+
+function updateVisual(id: string, position: Vector3, velocity: Vector3, at: number) {
+	const visual = visuals.get(id);
+	if (!visual) return;
+
+	visual.origin = position;
+	visual.velocity = velocity;
+	visual.since = at;
+}
+
+function destroyVisual(id: string) {
+	const visual = visuals.get(id);
+	if (!visual) return;
+
+	visual.tween.Cancel();
+	pools.get(visual.key)?.release(visual.part);
+	visuals.delete(id);
+}
+
+/**
+ * Gets hit/miss metrics of each projectile key's visual pool
+ */
+export function getProjectilePoolMetrics(): Partial<Record<ProjectileKey, InstancePoolMetrics>> {
+	const metrics: Partial<Record<ProjectileKey, InstancePoolMetrics>> = {};
+	for (const [key, pool] of pools) {
+		metrics[key] = pool.getMetrics();
+	}
+	return metrics;
+}
+
+/**
+ * Connects projectile replication and the render loop.
+ * Call once from the client entry point.
+ */
+export function startProjectileVisuals() {
+	for (const key of ProjectileKeys) {
+		getPool(key)?.prewarm(POOL_PREWARM);
+	}
+
+	ClientOn.ProjectileSpawned(spawnVisual);
+	ClientOn.ProjectileUpdated(updateVisual);
+	ClientOn.ProjectileDestroyed((id) => destroyVisual(id));
+
+	RunService.RenderStepped.Connect(() => {
+		const now = Workspace.GetServerTimeNow();
+		for (const [, visual] of visuals) {
+			const elapsed = now - visual.since;
+			const position = visual.origin
+				.add(visual.velocity.mul(elapsed))
+				.add(visual.gravity.mul(0.5 * elapsed * elapsed));
+			const velocity = visual.velocity.add(visual.gravity.mul(elapsed));
+			visual.part.CFrame = CFrame.lookAt(position, position.add(velocity));
+		}
+	});
+}
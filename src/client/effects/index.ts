@@ -0,0 +1,8 @@
+/**
+ * @file        src/client/effects/index.ts
+ * @module      ClientEffects
+ * @layer       Client
+ * @description Barrel export for client-side visual effects driven by server events.
+ */
+
+export * from "./ProjectileVisuals";
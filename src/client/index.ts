@@ -1,5 +1,19 @@
 // Client-side code
 import { Players } from "@rbxts/services";
+import { startReplication } from "client/network";
+import { startProjectileVisuals } from "client/effects";
+import { AbilityHotbar, GameScreen, StatusEffectBar } from "client/ui";
 
 const player = Players.LocalPlayer;
 print(`Hello from client, ${player.Name}!`);
+
+startReplication();
+startProjectileVisuals();
+
+GameScreen({
+	Name: "HudScreen",
+	Content: {
+		AbilityHotbar: AbilityHotbar({}),
+		StatusEffectBar: StatusEffectBar({}),
+	},
+});
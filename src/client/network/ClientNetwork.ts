@@ -0,0 +1,43 @@
+/**
+ * @file        src/client/network/ClientNetwork.ts
+ * @module      ClientNetwork
+ * @layer       Client
+ * @description Client side of the typed network layer. Wraps the remotes declared in
+ *              `shared/network` with typed requests and event listeners.
+ */
+
+import { ReplicatedStorage } from "@rbxts/services";
+import {
+	CLIENT_FUNCTION_KEYS,
+	ClientFunctionKey,
+	ClientFunctions,
+	REMOTES_FOLDER_NAME,
+	SERVER_EVENT_KEYS,
+	ServerEventKey,
+	ServerEvents,
+} from "shared/network";
+
+type ClientRequester = {
+	[K in ClientFunctionKey]: (...args: Parameters<ClientFunctions[K]>) => Promise<ReturnType<ClientFunctions[K]>>;
+};
+type ClientListener = { [K in ServerEventKey]: (callback: ServerEvents[K]) => RBXScriptConnection };
+
+const remotesFolder = ReplicatedStorage.WaitForChild(REMOTES_FOLDER_NAME) as Folder;
+
+/** Invokes a server request and resolves with its response: `ClientSend.ModifyAttribute(key, amount)` */
+export const ClientSend = {} as ClientRequester;
+
+for (const key of CLIENT_FUNCTION_KEYS) {
+	const remote = remotesFolder.WaitForChild(key) as RemoteFunction;
+	(ClientSend as Record<string, unknown>)[key] = (...args: unknown[]) =>
+		Promise.try(() => remote.InvokeServer(...args));
+}
+
+/** Subscribes to a server event: `ClientOn.MessageReceived((message) => ...)` */
+export const ClientOn = {} as ClientListener;
+
+for (const key of SERVER_EVENT_KEYS) {
+	const remote = remotesFolder.WaitForChild(key) as RemoteEvent;
+	(ClientOn as Record<string, unknown>)[key] = (callback: (...args: unknown[]) => void) =>
+		remote.OnClientEvent.Connect(callback);
+}
@@ -0,0 +1,25 @@
+/**
+ * @file        src/client/network/Replication.ts
+ * @module      ClientReplication
+ * @layer       Client
+ * @description Applies server-replicated state to the client state slices.
+ */
+
+import { GameState, MessageSlice, PlayerStateInstance } from "client/states";
+import { ClientOn } from "./ClientNetwork";
+
+/**
+ * Connects every server → client state event to its slice.
+ * Call once from the client entry point.
+ */
+export function startReplication() {
+	ClientOn.ProfileSnapshot((data) => {
+		PlayerStateInstance.ApplyProfile(data);
+		GameState.PlayerDataLoaded.set(true);
+	});
+	ClientOn.ProfileUpdated((key, value) => PlayerStateInstance.ApplyProfileKey(key, value));
+	ClientOn.ResourceUpdated((key, data) => PlayerStateInstance.Resources.UpdateResource(key, data));
+	ClientOn.AbilityCooldown((key, endsAt) => PlayerStateInstance.Abilities.UpdateCooldown(key, endsAt));
+	ClientOn.StatusEffectsUpdated((effects) => PlayerStateInstance.UpdateStatusEffects(effects));
+	ClientOn.MessageReceived((message) => MessageSlice.show(message));
+}
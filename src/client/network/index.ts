@@ -0,0 +1,9 @@
+/**
+ * @file        src/client/network/index.ts
+ * @module      ClientNetworkIndex
+ * @layer       Client
+ * @description Barrel export for the client network layer.
+ */
+
+export * from "./ClientNetwork";
+export * from "./Replication";
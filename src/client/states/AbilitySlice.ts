@@ -17,12 +17,30 @@
  * @lastUpdated  2025-07-10 by Codex – Added metadata header
  */
 
-import { Value } from "@rbxts/fusion";
+import { Computed, Value } from "@rbxts/fusion";
+import { Workspace } from "@rbxts/services";
 import { AbilityKey } from "shared/definitions";
+import {
+	AbilityRankPreview,
+	AbilityRanksDTO,
+	DefaultAbilityRanks,
+	getAbilityRankPreview,
+} from "shared/definitions/ProfileDefinitions/AbilityRanks";
+import { ClientSend } from "client/network/ClientNetwork";
+
+/** A running cooldown in server time (Workspace.GetServerTimeNow) */
+export type AbilityCooldown = {
+	endsAt: number;
+	duration: number;
+};
 
 export default class AbilitySlice {
 	/** Reactive list of equipped abilities */
 	public readonly Abilities = Value<AbilityKey[]>([]);
+	/** Running cooldowns by ability, as reported by the server */
+	public readonly Cooldowns = Value<Partial<Record<AbilityKey, AbilityCooldown>>>({});
+	/** Current rank of every ability */
+	public readonly Ranks = Value<AbilityRanksDTO>({ ...DefaultAbilityRanks });
 
 	constructor() {
 		print("AbilitySlice initialized");
@@ -33,4 +51,48 @@ export default class AbilitySlice {
 		warn("AbilitySlice: Updating abilities to", list);
 		this.Abilities.set(list);
 	}
+
+	public UpdateRanks(ranks: AbilityRanksDTO) {
+		this.Ranks.set(ranks);
+	}
+
+	/** Reactive current/next rank preview for one ability */
+	public GetRankPreview(key: AbilityKey): Computed<AbilityRankPreview> {
+		return Computed(() => getAbilityRankPreview(key, this.Ranks.get()[key]));
+	}
+
+	/** Ask the server to upgrade an ability; the new rank arrives through profile replication */
+	public UpgradeAbility(key: AbilityKey) {
+		ClientSend.UpgradeAbility(key)
+			.then((upgraded) => {
+				if (!upgraded) warn(`UpgradeAbility failed for ${key}.`);
+			})
+			.catch((err) => warn(`Failed to upgrade ${key}:`, err));
+	}
+
+	/** Record a cooldown the server started */
+	public UpdateCooldown(key: AbilityKey, endsAt: number) {
+		const duration = math.max(0, endsAt - Workspace.GetServerTimeNow());
+		this.Cooldowns.set({ ...this.Cooldowns.get(), [key]: { endsAt, duration } });
+	}
+
+	/** Ask the server to cast an ability; rejections arrive as messages */
+	public CastAbility(key: AbilityKey, target?: Model) {
+		ClientSend.CastAbility(key, target).catch((err) => warn(`Failed to cast ${key}:`, err));
+	}
+
+	/** Ask the server to move an ability to another hotbar position */
+	public MoveAbility(fromIndex: number, toIndex: number) {
+		const order = [...this.Abilities.get()];
+		const key = order[fromIndex];
+		if (key === undefined || fromIndex === toIndex || toIndex < 0 || toIndex >= order.size()) return;
+
+		order.remove(fromIndex);
+		order.insert(toIndex, key);
+		ClientSend.ReorderAbilities(order)
+			.then((moved) => {
+				if (!moved) warn(`MoveAbility failed from ${fromIndex} to ${toIndex}.`);
+			})
+			.catch((err) => warn(`Failed to move ability from ${fromIndex} to ${toIndex}:`, err));
+	}
 }
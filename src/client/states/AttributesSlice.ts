@@ -15,7 +15,7 @@
  */
 
 import { Value } from "@rbxts/fusion";
-// import { ClientSend } from "client/network";
+import { ClientSend } from "client/network/ClientNetwork";
 import { ATTR_KEYS, AttributeKey, AttributesDTO, DefaultAttributes } from "shared";
 
 export default class AttributesSlice {
@@ -45,19 +45,19 @@ export default class AttributesSlice {
 	}
 
 	public ModifyAttribute(key: AttributeKey, amount: number): boolean {
-		// ClientSend.ModifyAttribute(key, amount)
-		// 	.then((attrs) => {
-		// 		if (attrs === undefined) {
-		// 			warn(`ModifyAttribute failed for key ${key} with amount ${amount}.`);
-		// 			return false;
-		// 		}
-		// 		this.UpdateAttributes(attrs);
-		// 		return true;
-		// 	})
-		// 	.catch((err) => {
-		// 		warn(`Failed to modify attribute ${key} by ${amount}:`, err);
-		// 		return false;
-		// 	});
+		ClientSend.ModifyAttribute(key, amount)
+			.then((attrs) => {
+				if (attrs === undefined) {
+					warn(`ModifyAttribute failed for key ${key} with amount ${amount}.`);
+					return false;
+				}
+				this.UpdateAttributes(attrs);
+				return true;
+			})
+			.catch((err) => {
+				warn(`Failed to modify attribute ${key} by ${amount}:`, err);
+				return false;
+			});
 
 		return true;
 	}
@@ -0,0 +1,54 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        InventorySlice.ts
+ * @module      InventorySlice
+ * @layer       Client/State
+ * @description Reactive container for the player's slot-based inventory.
+ */
+
+import { Computed, Value } from "@rbxts/fusion";
+import { ClientSend } from "client/network/ClientNetwork";
+import { DefaultInventory, InventoryDTO, InventoryStack } from "shared/definitions/ProfileDefinitions/Inventory";
+
+export default class InventorySlice {
+	public readonly Capacity = Value(DefaultInventory.Capacity);
+	public readonly Stacks = Value<InventoryStack[]>([]);
+	/** Stacks keyed by slot index, for binding a slot grid */
+	public readonly StacksBySlot: Computed<Map<number, InventoryStack>>;
+	public readonly UsedSlots: Computed<number>;
+
+	constructor() {
+		this.StacksBySlot = Computed(() => {
+			const bySlot = new Map<number, InventoryStack>();
+			for (const stack of this.Stacks.get()) {
+				bySlot.set(stack.Slot, stack);
+			}
+			return bySlot;
+		});
+		this.UsedSlots = Computed(() => this.Stacks.get().size());
+	}
+
+	public UpdateInventory(inventory: InventoryDTO) {
+		this.Capacity.set(inventory.Capacity ?? DefaultInventory.Capacity);
+		this.Stacks.set(inventory.Stacks ?? []);
+	}
+
+	/** Ask the server to move a stack; the result arrives through profile replication */
+	public MoveStack(fromSlot: number, toSlot: number) {
+		ClientSend.MoveInventoryStack(fromSlot, toSlot)
+			.then((moved) => {
+				if (!moved) warn(`MoveStack failed from slot ${fromSlot} to ${toSlot}.`);
+			})
+			.catch((err) => warn(`Failed to move stack from slot ${fromSlot} to ${toSlot}:`, err));
+	}
+
+	/** Ask the server to split part of a stack into the first empty slot */
+	public SplitStack(slot: number, quantity: number) {
+		ClientSend.SplitInventoryStack(slot, quantity)
+			.then((split) => {
+				if (!split) warn(`SplitStack failed for slot ${slot} with quantity ${quantity}.`);
+			})
+			.catch((err) => warn(`Failed to split stack in slot ${slot}:`, err));
+	}
+}
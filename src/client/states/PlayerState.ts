@@ -13,14 +13,16 @@
 
 /* Non-Slice Imports */
 import { Value } from "@rbxts/fusion";
-import { StatusEffect } from "shared/definitions/StatusEffect";
+import { StatusEffect, StatusEffectDTO, StatusEffectMeta } from "shared/definitions/StatusEffect";
 import { Players } from "@rbxts/services";
+import { ProfileDataKey, ProfileDataKeys, ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
 /* Slices */
 import AbilitySlice from "./AbilitySlice";
 import ResourceSlice from "./ResourceSlice";
 import AttributesSlice from "./AttributesSlice";
 import ProgressionSlice from "./ProgressionSlice";
 import CurrencySlice from "./CurrencySlice";
+import InventorySlice from "./InventorySlice";
 import SettingsSlice from "./SettingsState";
 
 /* Player State Wrapper */
@@ -32,6 +34,7 @@ class PlayerStateClass {
 	public readonly Progression = new ProgressionSlice();
 	public readonly Settings = new SettingsSlice();
 	public readonly Currency = new CurrencySlice();
+	public readonly Inventory = new InventorySlice();
 
 	/** Active status effects */
 	public StatusEffects = Value<StatusEffect[]>([]);
@@ -42,6 +45,56 @@ class PlayerStateClass {
 			return PlayerStateClass.instance;
 		}
 	}
+
+	/** Replace the active status effects with the server's list */
+	public UpdateStatusEffects(effects: StatusEffectDTO[]) {
+		this.StatusEffects.set(
+			effects.map((effect) => ({
+				key: effect.key,
+				meta: StatusEffectMeta[effect.key],
+				startTime: effect.startTime,
+				active: true,
+				stacks: effect.stacks,
+				expiresAt: effect.expiresAt,
+			})),
+		);
+	}
+
+	/** Replace every slice backed by the profile with a full server snapshot */
+	public ApplyProfile(data: ProfileDataMap) {
+		for (const key of ProfileDataKeys) {
+			this.ApplyProfileKey(key, data[key]);
+		}
+	}
+
+	/** Route a single profile bucket to the slice that owns it */
+	public ApplyProfileKey<K extends ProfileDataKey>(key: K, value: ProfileDataMap[K]) {
+		switch (key) {
+			case "Abilities":
+				this.Abilities.UpdateAbilities(value as ProfileDataMap["Abilities"]);
+				break;
+			case "AbilityRanks":
+				this.Abilities.UpdateRanks(value as ProfileDataMap["AbilityRanks"]);
+				break;
+			case "Attributes":
+				this.Attributes.UpdateAttributes(value as ProfileDataMap["Attributes"]);
+				break;
+			case "Progression":
+				this.Progression.UpdateProgression(value as ProfileDataMap["Progression"]);
+				break;
+			case "Settings":
+				this.Settings.UpdateSettings(value as ProfileDataMap["Settings"]);
+				break;
+			case "Currency":
+				this.Currency.UpdateCurrency(value as ProfileDataMap["Currency"]);
+				break;
+			case "Inventory":
+				this.Inventory.UpdateInventory(value as ProfileDataMap["Inventory"]);
+				break;
+			default:
+				warn(`PlayerState: Unhandled profile key ${key}`);
+		}
+	}
 }
 
 export const PlayerStateInstance = new PlayerStateClass();
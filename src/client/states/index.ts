@@ -16,5 +16,6 @@ export { default as ResourceSlice } from "./ResourceSlice";
 export { default as AttributesSlice } from "./AttributesSlice";
 export { default as ProgressionSlice } from "./ProgressionSlice";
 export { default as CurrencySlice } from "./CurrencySlice";
+export { default as InventorySlice } from "./InventorySlice";
 export { default as MessageSlice } from "./MessageSlice";
 export { default as GameState } from "./GameState";
@@ -1,2 +1,3 @@
 export * from "./atoms";
+export * from "./organisms";
 export * from "./tokens";
\ No newline at end of file
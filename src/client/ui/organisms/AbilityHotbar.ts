@@ -0,0 +1,252 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        AbilityHotbar.ts
+ * @module      AbilityHotbar
+ * @layer       Client/UI/Organisms
+ * @description Hotbar of equipped abilities with cooldown sweeps, resource gating,
+ *              keyboard/gamepad binds and drag-to-reorder. Casts target the character
+ *              under the cursor (screen centre for gamepad binds).
+ *
+ * ╭───────────────────────────────╮
+ * │  Soul Steel · Coding Guide    │
+ * │  Fusion v4 · Strict TS · ECS  │
+ * ╰───────────────────────────────╯
+ *
+ * @dependencies
+ *   @rbxts/fusion ^0.4.0
+ */
+
+// -------------- Imports ------------- //
+import Fusion, { Children, Cleanup, Computed, ForValues, New, Ref, Value } from "@rbxts/fusion";
+import { Players, RunService, UserInputService, Workspace } from "@rbxts/services";
+import { PlayerStateInstance } from "client/states";
+import { AbilitiesMeta, AbilityKey } from "shared/definitions/ProfileDefinitions/Ability";
+import { getAbilityRankStats } from "shared/definitions/ProfileDefinitions/AbilityRanks";
+import { GameText, UIButton } from "../atoms";
+import { Layout } from "../tokens";
+
+// -------------- Keybinds ------------- //
+export interface HotbarKeybind {
+	Keyboard: Enum.KeyCode;
+	Gamepad: Enum.KeyCode;
+	Label: string;
+}
+
+/** Binds by hotbar position; abilities past the last bind are click-only */
+export const HOTBAR_KEYBINDS: readonly HotbarKeybind[] = [
+	{ Keyboard: Enum.KeyCode.One, Gamepad: Enum.KeyCode.ButtonX, Label: "1" },
+	{ Keyboard: Enum.KeyCode.Two, Gamepad: Enum.KeyCode.ButtonY, Label: "2" },
+	{ Keyboard: Enum.KeyCode.Three, Gamepad: Enum.KeyCode.ButtonB, Label: "3" },
+	{ Keyboard: Enum.KeyCode.Four, Gamepad: Enum.KeyCode.ButtonL1, Label: "4" },
+	{ Keyboard: Enum.KeyCode.Five, Gamepad: Enum.KeyCode.ButtonR1, Label: "5" },
+	{ Keyboard: Enum.KeyCode.Six, Gamepad: Enum.KeyCode.DPadLeft, Label: "6" },
+	{ Keyboard: Enum.KeyCode.Seven, Gamepad: Enum.KeyCode.DPadRight, Label: "7" },
+	{ Keyboard: Enum.KeyCode.Eight, Gamepad: Enum.KeyCode.DPadUp, Label: "8" },
+	{ Keyboard: Enum.KeyCode.Nine, Gamepad: Enum.KeyCode.DPadDown, Label: "9" },
+];
+
+// -------------- Props ---------------- //
+export interface AbilityHotbarProps extends Fusion.PropertyTable<Frame> {
+	/** Pixel size of each slot */
+	SlotSize?: number;
+	/** Pixel gap between slots */
+	SlotPadding?: number;
+}
+
+interface AbilitySlotProps {
+	Key: AbilityKey;
+	Index: number;
+	Size: number;
+	ServerNow: Value<number>;
+	OnDragStart: (index: number) => void;
+	OnDragEnd: (pos: Vector2) => void;
+}
+
+const READY_COLOUR = new Color3(1, 1, 1);
+const UNAFFORDABLE_COLOUR = Color3.fromRGB(90, 90, 90);
+const SLOT_NAME_PATTERN = "^Slot_(%d+)$";
+/** Farthest a cast can pick a target from the camera */
+const TARGET_RAY_LENGTH = 500;
+
+// -------------- Targeting ---------------- //
+/** Character model under a viewport point, ignoring the local player's own */
+function findTargetAt(viewportPoint: Vector2): Model | undefined {
+	const camera = Workspace.CurrentCamera;
+	if (!camera) return undefined;
+
+	const params = new RaycastParams();
+	params.FilterType = Enum.RaycastFilterType.Exclude;
+	const character = Players.LocalPlayer.Character;
+	if (character) params.FilterDescendantsInstances = [character];
+
+	const ray = camera.ViewportPointToRay(viewportPoint.X, viewportPoint.Y);
+	const hit = Workspace.Raycast(ray.Origin, ray.Direction.mul(TARGET_RAY_LENGTH), params);
+	const model = hit?.Instance.FindFirstAncestorWhichIsA("Model");
+	return model?.FindFirstChildOfClass("Humanoid") ? model : undefined;
+}
+
+/** Target for a cast: gamepad aims from the screen centre, everything else from the cursor */
+function findCastTarget(gamepad: boolean): Model | undefined {
+	const camera = Workspace.CurrentCamera;
+	if (gamepad && camera) return findTargetAt(camera.ViewportSize.div(2));
+	return findTargetAt(UserInputService.GetMouseLocation());
+}
+
+// -------------- AbilitySlot ---------------- //
+function AbilitySlot(props: AbilitySlotProps) {
+	const meta = AbilitiesMeta[props.Key];
+	const abilities = PlayerStateInstance.Abilities;
+	const resources = PlayerStateInstance.Resources;
+
+	/* Remaining cooldown as a 0..1 fraction, against the server clock */
+	const remaining = Computed(() => {
+		const cooldown = abilities.Cooldowns.get()[props.Key];
+		if (!cooldown) return 0;
+		return math.max(0, cooldown.endsAt - props.ServerNow.get());
+	});
+	const sweep = Computed(() => {
+		const cooldown = abilities.Cooldowns.get()[props.Key];
+		if (!cooldown || cooldown.duration <= 0) return 0;
+		return math.clamp(remaining.get() / cooldown.duration, 0, 1);
+	});
+
+	const rankStats = Computed(() => getAbilityRankStats(props.Key, abilities.Ranks.get()[props.Key]));
+	const affordable = Computed(() => {
+		const cost = rankStats.get().cost;
+		return resources.Mana.current.get() >= cost.mana && resources.Stamina.current.get() >= cost.stamina;
+	});
+
+	const keybind = HOTBAR_KEYBINDS[props.Index];
+
+	return UIButton({
+		Name: `Slot_${props.Index}`,
+		Icon: meta.iconId,
+		Size: UDim2.fromOffset(props.Size, props.Size),
+		LayoutOrder: props.Index,
+		Draggable: true,
+		ImageColor3: Computed(() => (affordable.get() ? READY_COLOUR : UNAFFORDABLE_COLOUR)),
+		OnClick: () => abilities.CastAbility(props.Key, findCastTarget(false)),
+		OnDragStart: () => props.OnDragStart(props.Index),
+		OnDragEnd: props.OnDragEnd,
+		[Children]: {
+			/* Linear sweep: shrinks from the top as the cooldown runs out */
+			CooldownSweep: New("Frame")({
+				Name: "CooldownSweep",
+				AnchorPoint: new Vector2(0, 1),
+				Position: UDim2.fromScale(0, 1),
+				Size: Computed(() => UDim2.fromScale(1, sweep.get())),
+				BackgroundColor3: new Color3(0, 0, 0),
+				BackgroundTransparency: 0.4,
+				BorderSizePixel: 0,
+				ZIndex: 2,
+			}),
+			CooldownText: GameText({
+				Name: "CooldownText",
+				TextState: Computed(() => {
+					const seconds = remaining.get();
+					if (seconds <= 0) return "";
+					return seconds < 1 ? string.format("%.1f", seconds) : tostring(math.ceil(seconds));
+				}),
+				Size: UDim2.fromScale(0.6, 0.6),
+				ZIndex: 3,
+			}),
+			Keybind: keybind
+				? GameText({
+						Name: "Keybind",
+						TextState: Value(keybind.Label),
+						AnchorPoint: new Vector2(0, 0),
+						Position: UDim2.fromScale(0.05, 0.05),
+						Size: UDim2.fromScale(0.3, 0.3),
+						ZIndex: 3,
+					})
+				: undefined,
+			Rank: GameText({
+				Name: "Rank",
+				TextState: Computed(() => `R${rankStats.get().rank}`),
+				AnchorPoint: new Vector2(1, 1),
+				Position: UDim2.fromScale(0.95, 0.95),
+				Size: UDim2.fromScale(0.35, 0.3),
+				ZIndex: 3,
+			}),
+		},
+	});
+}
+
+// -------------- AbilityHotbar ---------------- //
+export const AbilityHotbar = (props: AbilityHotbarProps) => {
+	const slotSize = props.SlotSize ?? 64;
+	const slotPadding = props.SlotPadding ?? 6;
+	const abilities = PlayerStateInstance.Abilities;
+
+	const container = Value<Frame | undefined>(undefined);
+	const serverNow = Value(Workspace.GetServerTimeNow());
+	let draggingIndex: number | undefined;
+
+	/* Position on screen → hotbar index of the slot under it */
+	const findSlotAt = (pos: Vector2): number | undefined => {
+		const frame = container.get();
+		if (!frame) return undefined;
+
+		for (const child of frame.GetChildren()) {
+			if (!child.IsA("GuiObject")) continue;
+			const [index] = child.Name.match(SLOT_NAME_PATTERN);
+			if (index === undefined) continue;
+
+			const min = child.AbsolutePosition;
+			const max = min.add(child.AbsoluteSize);
+			if (pos.X >= min.X && pos.X <= max.X && pos.Y >= min.Y && pos.Y <= max.Y) {
+				return tonumber(index);
+			}
+		}
+		return undefined;
+	};
+
+	const slots = Computed(() => abilities.Abilities.get().map((key, index) => ({ key, index })));
+
+	const clock = RunService.RenderStepped.Connect(() => serverNow.set(Workspace.GetServerTimeNow()));
+
+	const input = UserInputService.InputBegan.Connect((inputObject, gameProcessed) => {
+		if (gameProcessed) return;
+
+		const index = HOTBAR_KEYBINDS.findIndex(
+			(bind) => bind.Keyboard === inputObject.KeyCode || bind.Gamepad === inputObject.KeyCode,
+		);
+		const key = index === -1 ? undefined : abilities.Abilities.get()[index];
+		if (key !== undefined) {
+			abilities.CastAbility(key, findCastTarget(inputObject.KeyCode === HOTBAR_KEYBINDS[index].Gamepad));
+		}
+	});
+
+	return New("Frame")({
+		Name: props.Name ?? "AbilityHotbar",
+		AnchorPoint: props.AnchorPoint ?? new Vector2(0.5, 1),
+		Position: props.Position ?? new UDim2(0.5, 0, 1, -16),
+		Size: props.Size ?? UDim2.fromOffset(0, slotSize),
+		AutomaticSize: Enum.AutomaticSize.X,
+		BackgroundTransparency: 1,
+		[Ref]: container,
+		[Cleanup]: [clock, input],
+		[Children]: {
+			Layout: Layout.HorizontalSet(slotPadding),
+			Slots: ForValues(slots, (slot) =>
+				AbilitySlot({
+					Key: slot.key,
+					Index: slot.index,
+					Size: slotSize,
+					ServerNow: serverNow,
+					OnDragStart: (index) => (draggingIndex = index),
+					OnDragEnd: (pos) => {
+						const fromIndex = draggingIndex;
+						draggingIndex = undefined;
+
+						const toIndex = findSlotAt(pos);
+						if (fromIndex !== undefined && toIndex !== undefined && fromIndex !== toIndex) {
+							abilities.MoveAbility(fromIndex, toIndex);
+						}
+					},
+				}),
+			),
+		},
+	});
+};
@@ -0,0 +1,142 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        StatusEffectBar.ts
+ * @module      StatusEffectBar
+ * @layer       Client/UI/Organisms
+ * @description HUD row of active status effects, buffs and debuffs grouped apart, with
+ *              countdowns, stack badges and description tooltips.
+ *
+ * ╭───────────────────────────────╮
+ * │  Soul Steel · Coding Guide    │
+ * │  Fusion v4 · Strict TS · ECS  │
+ * ╰───────────────────────────────╯
+ *
+ * @dependencies
+ *   @rbxts/fusion ^0.4.0
+ */
+
+// -------------- Imports ------------- //
+import Fusion, { Children, Cleanup, Computed, ForValues, New, OnEvent, Value } from "@rbxts/fusion";
+import { RunService, Workspace } from "@rbxts/services";
+import { PlayerStateInstance } from "client/states";
+import { StatusEffect } from "shared/definitions/StatusEffect";
+import { Badge, GameImage, GameText } from "../atoms";
+import { Layout } from "../tokens";
+
+// -------------- Props ---------------- //
+export interface StatusEffectBarProps extends Fusion.PropertyTable<Frame> {
+	/** Pixel size of each icon */
+	IconSize?: number;
+}
+
+interface StatusEffectIconProps {
+	Effect: StatusEffect;
+	Size: number;
+	ServerNow: Value<number>;
+}
+
+const BUFF_COLOUR = Color3.fromRGB(80, 200, 120);
+const DEBUFF_COLOUR = Color3.fromRGB(220, 70, 70);
+
+// -------------- StatusEffectIcon ---------------- //
+function StatusEffectIcon(props: StatusEffectIconProps) {
+	const effect = props.Effect;
+	const hovered = Value(false);
+
+	const remaining = Computed(() => math.max(0, effect.expiresAt - props.ServerNow.get()));
+
+	return New("Frame")({
+		Name: effect.key,
+		Size: UDim2.fromOffset(props.Size, props.Size),
+		BackgroundColor3: effect.meta.positive ? BUFF_COLOUR : DEBUFF_COLOUR,
+		BackgroundTransparency: 0.6,
+		BorderSizePixel: 0,
+		[OnEvent("MouseEnter")]: () => hovered.set(true),
+		[OnEvent("MouseLeave")]: () => hovered.set(false),
+		[Children]: {
+			Corner: New("UICorner")({ CornerRadius: new UDim(0, 6) }),
+			Icon: GameImage({
+				Name: "Icon",
+				Image: effect.meta.iconId,
+				Size: UDim2.fromScale(0.9, 0.9),
+			}),
+			Countdown: GameText({
+				Name: "Countdown",
+				TextState: Computed(() => {
+					const seconds = remaining.get();
+					return seconds < 10 ? string.format("%.1f", seconds) : tostring(math.ceil(seconds));
+				}),
+				AnchorPoint: new Vector2(0.5, 0),
+				Position: UDim2.fromScale(0.5, 1),
+				Size: UDim2.fromScale(1, 0.35),
+				ZIndex: 2,
+			}),
+			Stacks:
+				effect.stacks > 1
+					? Badge({
+							Name: "Stacks",
+							TextValue: Value(tostring(effect.stacks)),
+							Corner: "TopRight",
+							Size: UDim2.fromOffset(18, 18),
+						})
+					: undefined,
+			Tooltip: New("TextLabel")({
+				Name: "Tooltip",
+				Visible: hovered,
+				AnchorPoint: new Vector2(0.5, 1),
+				Position: new UDim2(0.5, 0, 0, -4),
+				Size: UDim2.fromOffset(180, 0),
+				AutomaticSize: Enum.AutomaticSize.Y,
+				BackgroundColor3: new Color3(0, 0, 0),
+				BackgroundTransparency: 0.2,
+				TextColor3: new Color3(1, 1, 1),
+				TextWrapped: true,
+				TextSize: 14,
+				RichText: true,
+				Text: `<b>${effect.meta.displayName}</b>\n${effect.meta.description}`,
+				ZIndex: 20,
+			}),
+		},
+	});
+}
+
+// -------------- StatusEffectBar ---------------- //
+export const StatusEffectBar = (props: StatusEffectBarProps) => {
+	const iconSize = props.IconSize ?? 36;
+	const serverNow = Value(Workspace.GetServerTimeNow());
+	const effects = PlayerStateInstance.StatusEffects;
+
+	const buffs = Computed(() => effects.get().filter((effect) => effect.meta.positive));
+	const debuffs = Computed(() => effects.get().filter((effect) => !effect.meta.positive));
+
+	const clock = RunService.RenderStepped.Connect(() => serverNow.set(Workspace.GetServerTimeNow()));
+
+	const group = (name: string, list: Computed<StatusEffect[]>, layoutOrder: number) =>
+		New("Frame")({
+			Name: name,
+			Size: UDim2.fromOffset(0, iconSize),
+			AutomaticSize: Enum.AutomaticSize.X,
+			BackgroundTransparency: 1,
+			LayoutOrder: layoutOrder,
+			[Children]: {
+				Layout: Layout.HorizontalScroll(4),
+				Icons: ForValues(list, (effect) => StatusEffectIcon({ Effect: effect, Size: iconSize, ServerNow: serverNow })),
+			},
+		});
+
+	return New("Frame")({
+		Name: props.Name ?? "StatusEffectBar",
+		AnchorPoint: props.AnchorPoint ?? new Vector2(0.5, 1),
+		Position: props.Position ?? new UDim2(0.5, 0, 1, -100),
+		Size: props.Size ?? UDim2.fromOffset(0, iconSize),
+		AutomaticSize: Enum.AutomaticSize.X,
+		BackgroundTransparency: 1,
+		[Cleanup]: clock,
+		[Children]: {
+			Layout: Layout.HorizontalSet(16),
+			Buffs: group("Buffs", buffs, 0),
+			Debuffs: group("Debuffs", debuffs, 1),
+		},
+	});
+};
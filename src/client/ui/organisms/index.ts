@@ -0,0 +1,11 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        index.ts
+ * @module      BarrelOrganisms
+ * @layer       client/ui/organisms
+ * @description Barrel exports for all Organisms UI components.
+ */
+
+export * from "./AbilityHotbar";
+export * from "./StatusEffectBar";
@@ -0,0 +1,42 @@
+/**
+ * @file        src/server/data/DataStoreProfileStore.ts
+ * @module      DataStoreProfileStore
+ * @layer       Server
+ * @description ProfileStore backed by a Roblox DataStore.
+ */
+
+import { DataStoreService } from "@rbxts/services";
+import { ProfileStore, ProfileStoreRequest, ProfileStoreTransform } from "./ProfileStore";
+
+export class DataStoreProfileStore implements ProfileStore {
+	private dataStore: DataStore;
+
+	public constructor(public readonly name: string) {
+		this.dataStore = DataStoreService.GetDataStore(name);
+	}
+
+	public get(key: string): unknown {
+		const [value] = this.dataStore.GetAsync(key);
+		return value;
+	}
+
+	public update<T>(key: string, transform: ProfileStoreTransform<T>): T | undefined {
+		const [value] = this.dataStore.UpdateAsync<unknown, T>(key, (current) => $tuple(transform(current)));
+		return value;
+	}
+
+	public remove(key: string): void {
+		this.dataStore.RemoveAsync(key);
+	}
+
+	public getRequestBudget(request: ProfileStoreRequest): number {
+		// RemoveAsync draws on the SetIncrementAsync budget
+		const requestType =
+			request === "read"
+				? Enum.DataStoreRequestType.GetAsync
+				: request === "update"
+					? Enum.DataStoreRequestType.UpdateAsync
+					: Enum.DataStoreRequestType.SetIncrementAsync;
+		return DataStoreService.GetRequestBudgetForRequestType(requestType);
+	}
+}
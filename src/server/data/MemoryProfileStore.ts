@@ -0,0 +1,163 @@
+/**
+ * @file        src/server/data/MemoryProfileStore.ts
+ * @module      MemoryProfileStore
+ * @layer       Server
+ * @description In-memory ProfileStore that can simulate latency, throttling and failures,
+ *              for exercising persistence outside a live place.
+ */
+
+import { deepCopy } from "shared/helpers";
+import { ProfileStore, ProfileStoreRequest, ProfileStoreTransform } from "./ProfileStore";
+
+export interface MemoryProfileStoreOptions {
+	/** Seconds every request yields before it runs */
+	readonly latency?: number;
+	/** Chance (0-1) that any request throws */
+	readonly failureRate?: number;
+	/** Seed for failureRate rolls, so runs are repeatable */
+	readonly seed?: number;
+	/** Requests of each kind available before throttling; unlimited when omitted */
+	readonly budget?: number;
+	/** Requests of each kind restored per second */
+	readonly budgetRefillRate?: number;
+}
+
+export class MemoryProfileStore implements ProfileStore {
+	private data = new Map<string, unknown>();
+	private budgets = new Map<ProfileStoreRequest, number>();
+	private lastRefill = os.clock();
+	private pendingFailures: string[] = [];
+	private random: Random;
+	private requestCount = 0;
+
+	public constructor(
+		public readonly name: string = "MemoryProfileStore",
+		private options: MemoryProfileStoreOptions = {},
+	) {
+		this.random = options.seed !== undefined ? new Random(options.seed) : new Random();
+		this.budgets.set("read", options.budget ?? math.huge);
+		this.budgets.set("update", options.budget ?? math.huge);
+		this.budgets.set("write", options.budget ?? math.huge);
+	}
+
+	public get(key: string): unknown {
+		this.beginRequest(["read"]);
+		return deepCopy(this.data.get(key));
+	}
+
+	public update<T>(key: string, transform: ProfileStoreTransform<T>): T | undefined {
+		this.beginRequest(["update"]);
+
+		const result = transform(deepCopy(this.data.get(key)));
+		if (result === undefined) return undefined;
+
+		this.data.set(key, deepCopy(result));
+		return result;
+	}
+
+	public remove(key: string): void {
+		this.beginRequest(["write"]);
+		this.data.delete(key);
+	}
+
+	public getRequestBudget(request: ProfileStoreRequest): number {
+		this.refillBudgets();
+		return math.floor(this.budgets.get(request) ?? 0);
+	}
+
+	/**
+	 * Makes the next `count` requests throw
+	 */
+	public failNext(count: number = 1, message: string = "Simulated DataStore failure"): void {
+		for (let i = 0; i < count; i++) {
+			this.pendingFailures.push(message);
+		}
+	}
+
+	/**
+	 * Changes the simulation options of a running store
+	 */
+	public configure(options: Partial<MemoryProfileStoreOptions>): void {
+		this.options = { ...this.options, ...options };
+		if (options.seed !== undefined) {
+			this.random = new Random(options.seed);
+		}
+		if (options.budget !== undefined) {
+			this.budgets.set("read", options.budget);
+			this.budgets.set("update", options.budget);
+			this.budgets.set("write", options.budget);
+		}
+	}
+
+	/**
+	 * Reads a stored value directly, bypassing latency, budgets and failures
+	 */
+	public peek(key: string): unknown {
+		return deepCopy(this.data.get(key));
+	}
+
+	/**
+	 * Writes a stored value directly, e.g. to seed a legacy-schema profile
+	 */
+	public seed(key: string, value: unknown): void {
+		this.data.set(key, deepCopy(value));
+	}
+
+	/**
+	 * Removes all stored values and resets the request counter
+	 */
+	public clear(): void {
+		this.data.clear();
+		this.pendingFailures = [];
+		this.requestCount = 0;
+	}
+
+	/**
+	 * Gets the number of requests made, including failed and throttled ones
+	 */
+	public getRequestCount(): number {
+		return this.requestCount;
+	}
+
+	private beginRequest(requests: ProfileStoreRequest[]): void {
+		this.requestCount++;
+
+		if (this.options.latency !== undefined && this.options.latency > 0) {
+			task.wait(this.options.latency);
+		}
+
+		this.refillBudgets();
+		for (const request of requests) {
+			if ((this.budgets.get(request) ?? 0) < 1) {
+				throw `${this.name}: ${request} request was throttled`;
+			}
+		}
+		for (const request of requests) {
+			this.budgets.set(request, this.budgets.get(request)! - 1);
+		}
+
+		const failure = this.pendingFailures.shift();
+		if (failure !== undefined) {
+			throw `${this.name}: ${failure}`;
+		}
+
+		const failureRate = this.options.failureRate ?? 0;
+		if (failureRate > 0 && this.random.NextNumber() < failureRate) {
+			throw `${this.name}: Simulated DataStore failure`;
+		}
+	}
+
+	private refillBudgets(): void {
+		const now = os.clock();
+		const elapsed = now - this.lastRefill;
+		this.lastRefill = now;
+
+		const refillRate = this.options.budgetRefillRate ?? 0;
+		const maxBudget = this.options.budget ?? math.huge;
+		if (refillRate <= 0) return;
+
+		for (const [request, budget] of this.budgets) {
+			this.budgets.set(request, math.min(budget + elapsed * refillRate, maxBudget));
+		}
+	}
+}
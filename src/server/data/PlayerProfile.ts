@@ -0,0 +1,23 @@
+/**
+ * @file        src/server/data/PlayerProfile.ts
+ * @module      PlayerProfile
+ * @layer       Server
+ * @description Persisted player profile shape and its current schema version.
+ */
+
+import { ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
+import { SessionLock } from "./SessionLock";
+
+/** Bump when the persisted shape changes, and register a migration from the previous version */
+export const PROFILE_SCHEMA_VERSION = 3;
+
+/** Persisted profile: the shared ProfileDataMap buckets plus server-only bookkeeping */
+export interface PlayerProfile extends ProfileDataMap {
+	schemaVersion: number;
+	readonly playerId: number;
+	readonly playerName: string;
+	lastLogin: number;
+	totalPlayTime: number;
+	/** Owning server; absent when no server has the profile loaded */
+	sessionLock?: SessionLock;
+}
@@ -0,0 +1,149 @@
+/**
+ * @file        src/server/data/ProfileHistory.ts
+ * @module      ProfileHistory
+ * @layer       Server
+ * @description Bounded, timestamped profile snapshots kept per player for admin rollback,
+ *              and field-level diffs between them.
+ */
+
+import { InventoryStack } from "shared/definitions/ProfileDefinitions/Inventory";
+import { ProfileDataKey, ProfileDataKeys } from "shared/definitions/ProfileDefinitions/Profile";
+import { deepCopy } from "shared/helpers";
+import { migrateProfile, RawProfile } from "./ProfileMigrations";
+
+export const PROFILE_SNAPSHOT_REASONS = ["autosave", "sessionEnd", "preRestore"] as const;
+export type ProfileSnapshotReason = (typeof PROFILE_SNAPSHOT_REASONS)[number];
+
+/** Snapshot as listed to admins, without the profile payload */
+export interface ProfileSnapshotInfo {
+	readonly id: string;
+	readonly timestamp: number;
+	readonly reason: ProfileSnapshotReason;
+	readonly schemaVersion: number;
+}
+
+/** Stored snapshot; the profile is kept at the schema version it was saved with */
+export interface ProfileSnapshot extends ProfileSnapshotInfo {
+	readonly profile: RawProfile;
+}
+
+/** One changed field of a ProfileDataMap bucket (for Abilities the field is the ability key, for Inventory `Slot <n>`) */
+export interface ProfileFieldDiff {
+	readonly key: ProfileDataKey;
+	readonly field: string;
+	readonly before: unknown;
+	readonly after: unknown;
+}
+
+/** Reads a stored history list, dropping anything that isn't a snapshot */
+export function readProfileHistory(stored: unknown): ProfileSnapshot[] {
+	if (!typeIs(stored, "table")) return [];
+
+	return (stored as defined[]).filter((entry): entry is ProfileSnapshot => {
+		if (!typeIs(entry, "table")) return false;
+		const snapshot = entry as Partial<ProfileSnapshot>;
+		return typeIs(snapshot.id, "string") && typeIs(snapshot.timestamp, "number") && typeIs(snapshot.profile, "table");
+	});
+}
+
+/** Appends a snapshot, dropping the oldest ones beyond maxSnapshots */
+export function appendProfileSnapshot(
+	history: ProfileSnapshot[],
+	snapshot: ProfileSnapshot,
+	maxSnapshots: number,
+): ProfileSnapshot[] {
+	const updated = [...history, snapshot];
+	while (updated.size() > maxSnapshots) {
+		updated.shift();
+	}
+	return updated;
+}
+
+/** Strips the payload from a snapshot for listing */
+export function toProfileSnapshotInfo(snapshot: ProfileSnapshot): ProfileSnapshotInfo {
+	return {
+		id: snapshot.id,
+		timestamp: snapshot.timestamp,
+		reason: snapshot.reason,
+		schemaVersion: snapshot.schemaVersion,
+	};
+}
+
+/** Describes the stack in each occupied slot, e.g. 3 → "IRON_INGOT x2" */
+function describeSlots(bucket: Record<string, unknown>): Map<number, string> {
+	const slots = new Map<number, string>();
+	const stacks = typeIs(bucket.Stacks, "table") ? (bucket.Stacks as defined[]) : [];
+	for (const entry of stacks) {
+		const stack = entry as Partial<InventoryStack>;
+		if (typeIs(stack.Slot, "number")) {
+			slots.set(stack.Slot, `${stack.ItemId} x${stack.Quantity}`);
+		}
+	}
+	return slots;
+}
+
+/** Inventory diffs per slot (field `Slot <n>`) plus capacity, since stacks have no stable identity */
+function diffInventory(fromBucket: Record<string, unknown>, toBucket: Record<string, unknown>): ProfileFieldDiff[] {
+	const diffs: ProfileFieldDiff[] = [];
+	if (fromBucket.Capacity !== toBucket.Capacity) {
+		diffs.push({ key: "Inventory", field: "Capacity", before: fromBucket.Capacity, after: toBucket.Capacity });
+	}
+
+	const fromSlots = describeSlots(fromBucket);
+	const toSlots = describeSlots(toBucket);
+	const slots = new Set<number>();
+	for (const [slot] of fromSlots) slots.add(slot);
+	for (const [slot] of toSlots) slots.add(slot);
+
+	for (const slot of slots) {
+		if (fromSlots.get(slot) !== toSlots.get(slot)) {
+			diffs.push({ key: "Inventory", field: `Slot ${slot}`, before: fromSlots.get(slot), after: toSlots.get(slot) });
+		}
+	}
+	return diffs;
+}
+
+/**
+ * Lists every ProfileDataMap field that differs between two stored profiles.
+ * Both are migrated to the current schema first, so snapshots from older versions compare cleanly.
+ */
+export function diffProfileData(before: RawProfile, after: RawProfile): ProfileFieldDiff[] {
+	const from = migrateProfile(deepCopy(before));
+	const to = migrateProfile(deepCopy(after));
+	const diffs: ProfileFieldDiff[] = [];
+
+	for (const key of ProfileDataKeys) {
+		const fromBucket = typeIs(from[key], "table") ? (from[key] as Record<string, unknown>) : {};
+		const toBucket = typeIs(to[key], "table") ? (to[key] as Record<string, unknown>) : {};
+
+		if (key === "Abilities") {
+			// Ability lists are sets of keys, so compare membership rather than position
+			const fromSet = new Set((fromBucket as unknown as defined[]).map((ability) => tostring(ability)));
+			const toSet = new Set((toBucket as unknown as defined[]).map((ability) => tostring(ability)));
+			for (const ability of fromSet) {
+				if (!toSet.has(ability)) diffs.push({ key, field: ability, before: true, after: false });
+			}
+			for (const ability of toSet) {
+				if (!fromSet.has(ability)) diffs.push({ key, field: ability, before: false, after: true });
+			}
+			continue;
+		}
+
+		if (key === "Inventory") {
+			for (const diff of diffInventory(fromBucket, toBucket)) diffs.push(diff);
+			continue;
+		}
+
+		const fields = new Set<string>();
+		for (const [field] of pairs(fromBucket)) fields.add(field);
+		for (const [field] of pairs(toBucket)) fields.add(field);
+
+		for (const field of fields) {
+			if (fromBucket[field] !== toBucket[field]) {
+				diffs.push({ key, field, before: fromBucket[field], after: toBucket[field] });
+			}
+		}
+	}
+
+	return diffs;
+}
@@ -0,0 +1,189 @@
+/**
+ * @file        src/server/data/ProfileMigrations.ts
+ * @module      ProfileMigrations
+ * @layer       Server
+ * @description Ordered migrations that upgrade stored profiles to the current schema version,
+ *              plus reconciliation that fills newly added keys from the shared defaults.
+ */
+
+import { DefaultAbilities, isAbilityKey } from "shared/definitions/ProfileDefinitions/Ability";
+import { AbilityRanksDTO, isValidAbilityRank } from "shared/definitions/ProfileDefinitions/AbilityRanks";
+import { DefaultAttributes } from "shared/definitions/ProfileDefinitions/Attributes";
+import { isItemKey } from "shared/definitions/Items";
+import { DefaultInventory, InventoryStack } from "shared/definitions/ProfileDefinitions/Inventory";
+import { CURRENCY_KEYS, DefaultCurrency } from "shared/definitions/ProfileDefinitions/Currency";
+import { createProfileData, ProfileDataKeys } from "shared/definitions/ProfileDefinitions/Profile";
+import { DefaultProgression, getNextLevelExperience } from "shared/definitions/ProfileDefinitions/Progression";
+import { DefaultSettings, PlayerSettings, SETTING_KEYS } from "shared/definitions/ProfileDefinitions/Settings";
+import { PlayerProfile, PROFILE_SCHEMA_VERSION } from "./PlayerProfile";
+
+/** Profile as read from the DataStore, before it is trusted to match any schema */
+export type RawProfile = Record<string, unknown>;
+
+/** Upgrades a profile from one schema version to the next */
+export type ProfileMigration = (data: RawProfile) => RawProfile;
+
+/** Profiles saved before versioning was introduced */
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+/* --------------------------------------------------------- Migrations --------------------------------------------------------- */
+/**
+ * v1 → v2: lowercase `level`/`experience`/`currency`/`settings` become the shared
+ * ProfileDataMap buckets, and missing Attributes/Abilities are filled from defaults.
+ */
+const migrateV1ToV2: ProfileMigration = (data) => {
+	if (!typeIs(data.Currency, "table")) {
+		const legacyCurrency = typeIs(data.currency, "table") ? (data.currency as Record<string, unknown>) : {};
+		const currency = { ...DefaultCurrency };
+		for (const key of CURRENCY_KEYS) {
+			const amount = legacyCurrency[key] ?? legacyCurrency[key.lower()];
+			if (typeIs(amount, "number")) {
+				currency[key] = amount;
+			}
+		}
+		data.Currency = currency;
+	}
+
+	if (!typeIs(data.Progression, "table")) {
+		const level = typeIs(data.level, "number") ? data.level : DefaultProgression.Level;
+		data.Progression = {
+			Level: level,
+			Experience: typeIs(data.experience, "number") ? data.experience : DefaultProgression.Experience,
+			NextLevelExperience: getNextLevelExperience(level),
+		};
+	}
+
+	if (!typeIs(data.Settings, "table")) {
+		const legacySettings = typeIs(data.settings, "table") ? (data.settings as Record<string, unknown>) : {};
+		const settings: PlayerSettings = { ...DefaultSettings };
+		for (const key of SETTING_KEYS) {
+			const value = legacySettings[key];
+			if (typeIs(value, typeOf(DefaultSettings[key]))) {
+				settings[key] = value as boolean | string;
+			}
+		}
+		data.Settings = settings;
+	}
+
+	if (!typeIs(data.Attributes, "table")) {
+		data.Attributes = { ...DefaultAttributes };
+	}
+
+	if (!typeIs(data.Abilities, "table")) {
+		data.Abilities = [...DefaultAbilities];
+	}
+
+	data.level = undefined;
+	data.experience = undefined;
+	data.currency = undefined;
+	data.settings = undefined;
+	return data;
+};
+
+/**
+ * v2 → v3: the untyped `inventory` list becomes the slot-based Inventory bucket,
+ * one slot per legacy entry in its original order.
+ */
+const migrateV2ToV3: ProfileMigration = (data) => {
+	if (!typeIs(data.Inventory, "table")) {
+		const legacyInventory = typeIs(data.inventory, "table") ? (data.inventory as defined[]) : [];
+		const stacks: InventoryStack[] = [];
+		for (const entry of legacyInventory) {
+			if (!typeIs(entry, "table")) continue;
+			const { itemId, quantity } = entry as { itemId?: unknown; quantity?: unknown };
+			if (!typeIs(itemId, "string") || !typeIs(quantity, "number") || quantity <= 0) continue;
+			if (!isItemKey(itemId)) {
+				warn(`ProfileMigrations: Dropping unknown legacy inventory item ${itemId}`);
+				continue;
+			}
+			stacks.push({ Slot: stacks.size(), ItemId: itemId, Quantity: quantity });
+		}
+		data.Inventory = { Capacity: math.max(DefaultInventory.Capacity, stacks.size()), Stacks: stacks };
+	}
+
+	data.inventory = undefined;
+	return data;
+};
+
+/** Registry of migrations, keyed by the schema version they upgrade from */
+export const ProfileMigrations: Record<number, ProfileMigration> = {
+	1: migrateV1ToV2,
+	2: migrateV2ToV3,
+};
+
+/* --------------------------------------------------------- Pipeline --------------------------------------------------------- */
+/**
+ * Checks if a stored profile was saved by a server with a newer schema than this one.
+ * Such profiles must not be loaded: reconciling and re-saving them would drop fields this server doesn't know.
+ */
+export function isNewerProfileSchema(data: RawProfile): boolean {
+	return typeIs(data.schemaVersion, "number") && data.schemaVersion > PROFILE_SCHEMA_VERSION;
+}
+
+/**
+ * Runs every migration between the stored schema version and PROFILE_SCHEMA_VERSION, in order.
+ * Throws if a step is missing so a half-migrated profile is never handed out.
+ */
+export function migrateProfile(data: RawProfile): RawProfile {
+	let version = typeIs(data.schemaVersion, "number") ? data.schemaVersion : UNVERSIONED_SCHEMA_VERSION;
+
+	if (version > PROFILE_SCHEMA_VERSION) {
+		warn(`ProfileMigrations: Profile schema v${version} is newer than this server (v${PROFILE_SCHEMA_VERSION})`);
+		return data;
+	}
+
+	while (version < PROFILE_SCHEMA_VERSION) {
+		const migration = ProfileMigrations[version];
+		if (!migration) {
+			throw `ProfileMigrations: No migration registered from schema v${version}`;
+		}
+		data = migration(data);
+		version++;
+		data.schemaVersion = version;
+	}
+
+	return data;
+}
+
+/**
+ * Fills any ProfileDataMap bucket or field missing from a migrated profile with its shared
+ * default, so keys added to the definitions reach existing saves without a migration.
+ */
+export function reconcileProfile(data: RawProfile, player: Player): PlayerProfile {
+	const defaults = createProfileData();
+
+	for (const key of ProfileDataKeys) {
+		const value = data[key];
+		const fallback = defaults[key];
+
+		if (!typeIs(value, "table")) {
+			data[key] = fallback;
+		} else if (key === "Abilities") {
+			data[key] = (value as defined[]).filter((abilityKey) => typeIs(abilityKey, "string") && isAbilityKey(abilityKey));
+		} else if (key === "AbilityRanks") {
+			// Keep only known abilities with in-range ranks; everything else starts at the default rank
+			const ranks = { ...(fallback as AbilityRanksDTO) };
+			for (const [abilityKey, rank] of pairs(value as Record<string, unknown>)) {
+				if (typeIs(abilityKey, "string") && isAbilityKey(abilityKey) && typeIs(rank, "number") && isValidAbilityRank(rank)) {
+					ranks[abilityKey] = rank;
+				}
+			}
+			data[key] = ranks;
+		} else {
+			const bucket = value as Record<string, unknown>;
+			for (const [field, defaultValue] of pairs(fallback as Record<string, unknown>)) {
+				if (bucket[field] === undefined) {
+					bucket[field] = defaultValue;
+				}
+			}
+		}
+	}
+
+	data.schemaVersion ??= PROFILE_SCHEMA_VERSION;
+	data.playerId = player.UserId;
+	data.playerName = player.Name;
+	data.lastLogin ??= tick();
+	data.totalPlayTime ??= 0;
+
+	return data as unknown as PlayerProfile;
+}
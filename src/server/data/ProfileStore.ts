@@ -0,0 +1,32 @@
+/**
+ * @file        src/server/data/ProfileStore.ts
+ * @module      ProfileStore
+ * @layer       Server
+ * @description Storage backend PlayerDataService reads and writes profiles through.
+ */
+
+/** Kind of request, for budget checks: `get` reads, `update` is an atomic read-modify-write, `remove` writes */
+export type ProfileStoreRequest = "read" | "update" | "write";
+
+/**
+ * Returns the value to store, or undefined to cancel the write.
+ * May run more than once if the backend retries on conflict, so it must not have side effects beyond its result.
+ */
+export type ProfileStoreTransform<T> = (current: unknown) => T | undefined;
+
+/** Key-value store for persisted profiles; every method may yield and may throw */
+export interface ProfileStore {
+	readonly name: string;
+
+	/** Reads the stored value for a key */
+	get(key: string): unknown;
+
+	/** Atomically reads, transforms and writes a key; returns the stored value, or undefined if cancelled */
+	update<T>(key: string, transform: ProfileStoreTransform<T>): T | undefined;
+
+	/** Deletes a key */
+	remove(key: string): void;
+
+	/** Number of requests of this kind that can be made right now without being throttled */
+	getRequestBudget(request: ProfileStoreRequest): number;
+}
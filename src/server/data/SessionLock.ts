@@ -0,0 +1,26 @@
+/**
+ * @file        src/server/data/SessionLock.ts
+ * @module      SessionLock
+ * @layer       Server
+ * @description Session lock stored alongside a profile so only one server writes it at a time.
+ */
+
+/** Server that currently owns a profile, refreshed on every save */
+export interface SessionLock {
+	readonly jobId: string;
+	readonly timestamp: number;
+}
+
+/** Seconds without a refresh after which a lock is considered abandoned and may be stolen */
+export const SESSION_LOCK_TIMEOUT = 30 * 60;
+
+/** Creates a lock owned by this server */
+export function createSessionLock(): SessionLock {
+	return { jobId: game.JobId, timestamp: os.time() };
+}
+
+/** Whether the lock belongs to another server that is still considered alive */
+export function isLockedByOtherSession(lock: SessionLock | undefined, now: number = os.time()): boolean {
+	if (!lock || lock.jobId === game.JobId) return false;
+	return now - lock.timestamp < SESSION_LOCK_TIMEOUT;
+}
@@ -0,0 +1,14 @@
+/**
+ * @file        src/server/data/index.ts
+ * @module      PlayerData
+ * @layer       Server
+ * @description Barrel export for player profile persistence helpers.
+ */
+
+export * from "./PlayerProfile";
+export * from "./ProfileMigrations";
+export * from "./SessionLock";
+export * from "./ProfileStore";
+export * from "./DataStoreProfileStore";
+export * from "./MemoryProfileStore";
+export * from "./ProfileHistory";
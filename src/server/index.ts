@@ -12,9 +12,18 @@ import {
 	ResourceService, 
 	MessageService, 
 	PlayerDataService,
+	InventoryService,
+	EntityService,
 	CombatService,
+	StatusEffectService,
+	PhysicsBehaviorService,
+	ProjectileService,
+	BeamService,
+	AbilityService,
+	NPCBehaviorService,
 	WorldService,
 	EventService,
+	ReplicationService,
 	ValidationService,
 	ConfigService 
 } from "./services";
@@ -25,9 +34,18 @@ const lootService = LootService.getInstance();
 const resourceService = ResourceService.getInstance();
 const messageService = MessageService.getInstance();
 const playerDataService = PlayerDataService.getInstance();
+const inventoryService = InventoryService.getInstance();
+const entityService = EntityService.getInstance();
 const combatService = CombatService.getInstance();
+const statusEffectService = StatusEffectService.getInstance();
+const physicsBehaviorService = PhysicsBehaviorService.getInstance();
+const projectileService = ProjectileService.getInstance();
+const beamService = BeamService.getInstance();
+const abilityService = AbilityService.getInstance();
+const npcBehaviorService = NPCBehaviorService.getInstance();
 const worldService = WorldService.getInstance();
 const eventService = EventService.getInstance();
+const replicationService = ReplicationService.getInstance();
 const validationService = ValidationService.getInstance();
 const configService = ConfigService.getInstance();
 
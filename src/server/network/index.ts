@@ -0,0 +1,91 @@
+/**
+ * @file        src/server/network/index.ts
+ * @module      ServerNetwork
+ * @layer       Server
+ * @description Server side of the typed network layer. Creates the remotes declared in
+ *              `shared/network` and exposes typed senders and request handlers.
+ */
+
+import { ReplicatedStorage } from "@rbxts/services";
+import {
+	CLIENT_FUNCTION_KEYS,
+	ClientFunctionKey,
+	ClientFunctions,
+	REMOTES_FOLDER_NAME,
+	SERVER_EVENT_KEYS,
+	ServerEventKey,
+	ServerEvents,
+} from "shared/network";
+
+type ServerSender = { [K in ServerEventKey]: (player: Player, ...args: Parameters<ServerEvents[K]>) => void };
+type ServerBroadcaster = { [K in ServerEventKey]: (...args: Parameters<ServerEvents[K]>) => void };
+type ServerHandler<K extends ClientFunctionKey> = (
+	player: Player,
+	...args: Parameters<ClientFunctions[K]>
+) => ReturnType<ClientFunctions[K]>;
+type ServerHandlerRegistry = { [K in ClientFunctionKey]: (handler: ServerHandler<K>) => void };
+
+/* --------------------------------------------------------- Remote Setup --------------------------------------------------------- */
+function getRemotesFolder(): Folder {
+	let remotesFolder = ReplicatedStorage.FindFirstChild(REMOTES_FOLDER_NAME) as Folder | undefined;
+	if (!remotesFolder) {
+		remotesFolder = new Instance("Folder");
+		remotesFolder.Name = REMOTES_FOLDER_NAME;
+		remotesFolder.Parent = ReplicatedStorage;
+	}
+	return remotesFolder;
+}
+
+function getRemoteEvent(folder: Folder, name: string): RemoteEvent {
+	let remote = folder.FindFirstChild(name) as RemoteEvent | undefined;
+	if (!remote) {
+		remote = new Instance("RemoteEvent");
+		remote.Name = name;
+		remote.Parent = folder;
+	}
+	return remote;
+}
+
+function getRemoteFunction(folder: Folder, name: string): RemoteFunction {
+	let remote = folder.FindFirstChild(name) as RemoteFunction | undefined;
+	if (!remote) {
+		remote = new Instance("RemoteFunction");
+		remote.Name = name;
+		remote.Parent = folder;
+	}
+	return remote;
+}
+
+const remotesFolder = getRemotesFolder();
+
+/* --------------------------------------------------------- Server → Client --------------------------------------------------------- */
+/** Fires a server event to a single player: `ServerSend.MessageReceived(player, message)` */
+export const ServerSend = {} as ServerSender;
+
+/** Fires a server event to every connected player: `ServerBroadcast.MessageReceived(message)` */
+export const ServerBroadcast = {} as ServerBroadcaster;
+
+for (const key of SERVER_EVENT_KEYS) {
+	const remote = getRemoteEvent(remotesFolder, key);
+	(ServerSend as Record<string, unknown>)[key] = (player: Player, ...args: unknown[]) =>
+		remote.FireClient(player, ...args);
+	(ServerBroadcast as Record<string, unknown>)[key] = (...args: unknown[]) => remote.FireAllClients(...args);
+}
+
+/* --------------------------------------------------------- Client → Server --------------------------------------------------------- */
+/**
+ * Registers the handler answering a client request: `ServerHandle.ModifyAttribute((player, key, amount) => ...)`.
+ * Arguments arrive from the client unchecked, so handlers must validate them before use.
+ */
+export const ServerHandle = {} as ServerHandlerRegistry;
+
+for (const key of CLIENT_FUNCTION_KEYS) {
+	const remote = getRemoteFunction(remotesFolder, key);
+	remote.OnServerInvoke = (player) => {
+		warn(`ServerNetwork: No handler registered for ${key} (invoked by ${player.Name})`);
+		return undefined;
+	};
+	(ServerHandle as Record<string, unknown>)[key] = (handler: (player: Player, ...args: unknown[]) => unknown) => {
+		remote.OnServerInvoke = (player, ...args) => handler(player, ...args);
+	};
+}
@@ -0,0 +1,413 @@
+/**
+ * @file        src/server/services/AbilityService.ts
+ * @module      AbilityService
+ * @layer       Server
+ * @description Server-authoritative ability casting: ownership, resource costs, cooldowns,
+ *              animations and channeled ticks.
+ */
+
+import { Players, Workspace } from "@rbxts/services";
+import { GetTrack, loadAnimation } from "shared/definitions/Animation";
+import { MessageLibrary } from "shared/definitions/Message";
+import {
+	AbilitiesMeta,
+	AbilityCastContext,
+	AbilityKey,
+	AbilityMeta,
+	isAbilityKey,
+} from "shared/definitions/ProfileDefinitions/Ability";
+import {
+	AbilityRankStats,
+	getAbilityRankStats,
+	getAbilityUpgradeRequirement,
+	MIN_ABILITY_RANK,
+} from "shared/definitions/ProfileDefinitions/AbilityRanks";
+import { SSEntity } from "shared/types/SSEntity";
+import { ServerHandle, ServerSend } from "server/network";
+import { BeamService } from "./BeamService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+import { MessageService } from "./MessageService";
+import { PlayerDataService } from "./PlayerDataService";
+import { ProjectileService } from "./ProjectileService";
+import { ResourceService } from "./ResourceService";
+import { StatusEffectService } from "./StatusEffectService";
+
+interface ActiveChannel {
+	readonly key: AbilityKey;
+	cancelled: boolean;
+}
+
+export class AbilityService {
+	private static instance: AbilityService;
+	private cooldowns = new Map<number, Map<AbilityKey, number>>();
+	private activeChannels = new Map<number, ActiveChannel>();
+	private beamService = BeamService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+	private messageService = MessageService.getInstance();
+	private playerDataService = PlayerDataService.getInstance();
+	private projectileService = ProjectileService.getInstance();
+	private resourceService = ResourceService.getInstance();
+	private statusEffectService = StatusEffectService.getInstance();
+	private readonly DEFAULT_TICK_INTERVAL = 0.25;
+
+	private constructor() {
+		this.setupPlayerEvents();
+		this.setupNetworkHandlers();
+	}
+
+	public static getInstance(): AbilityService {
+		if (!AbilityService.instance) {
+			AbilityService.instance = new AbilityService();
+		}
+		return AbilityService.instance;
+	}
+
+	/**
+	 * Casts an ability for a player, replying with a library message when the cast is rejected
+	 */
+	public cast(player: Player, key: AbilityKey, target?: SSEntity): boolean {
+		const meta: AbilityMeta = AbilitiesMeta[key];
+		const stats = this.getAbilityStats(player, key);
+
+		if (!this.isEquipped(player, key)) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InvalidAction);
+			return false;
+		}
+
+		const caster = this.entityService.getPlayerEntity(player);
+		const castTarget = caster ? this.resolveTarget(caster, meta, target) : undefined;
+		if (
+			!caster ||
+			!this.entityService.isAlive(caster) ||
+			this.statusEffectService.isActionLocked(caster) ||
+			this.activeChannels.has(player.UserId) ||
+			(meta.beam !== undefined && !castTarget)
+		) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InvalidAction);
+			return false;
+		}
+
+		if (this.getCooldownRemaining(player, key) > 0) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.AbilityOnCooldown);
+			return false;
+		}
+
+		if (
+			!this.resourceService.hasEnoughResource(player, "Mana", stats.cost.mana) ||
+			!this.resourceService.hasEnoughResource(player, "Stamina", stats.cost.stamina)
+		) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InsufficientResources);
+			return false;
+		}
+
+		const context: AbilityCastContext = {
+			caster,
+			startPosition: caster.HumanoidRootPart.Position,
+			target: castTarget,
+			rank: stats.rank,
+			power: stats.power,
+		};
+
+		// A failed onStart cancels the cast before anything is charged
+		if (!this.runHook(key, "onStart", () => meta.onStart(context))) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InvalidAction);
+			return false;
+		}
+
+		this.resourceService.consumeResource(player, "Mana", stats.cost.mana);
+		this.resourceService.consumeResource(player, "Stamina", stats.cost.stamina);
+		this.startCooldown(player, key, stats.cooldown);
+		this.playAnimation(caster, meta);
+
+		this.eventService.fire("abilityCast", { player, key, caster, target: castTarget });
+		this.deliver(meta, context);
+
+		if (meta.channelDuration !== undefined && meta.channelDuration > 0) {
+			this.startChannel(player, key, meta, context);
+		} else if (meta.onEnd) {
+			this.runHook(key, "onEnd", () => meta.onEnd!(context));
+		}
+
+		return true;
+	}
+
+	/**
+	 * Casts an ability for a non-player entity such as an NPC. The caller tracks its own cooldowns;
+	 * there are no resource costs and channeled abilities end immediately.
+	 */
+	public castForEntity(caster: SSEntity, key: AbilityKey, target?: SSEntity, rank = MIN_ABILITY_RANK): boolean {
+		const meta: AbilityMeta = AbilitiesMeta[key];
+		const castTarget = this.resolveTarget(caster, meta, target);
+		if (
+			!this.entityService.isAlive(caster) ||
+			this.statusEffectService.isActionLocked(caster) ||
+			(meta.beam !== undefined && !castTarget)
+		) {
+			return false;
+		}
+
+		const stats = getAbilityRankStats(key, rank);
+		const context: AbilityCastContext = {
+			caster,
+			startPosition: caster.HumanoidRootPart.Position,
+			target: castTarget,
+			rank: stats.rank,
+			power: stats.power,
+		};
+
+		if (!this.runHook(key, "onStart", () => meta.onStart(context))) {
+			return false;
+		}
+		this.playAnimation(caster, meta);
+
+		this.eventService.fire("abilityCast", { key, caster, target: castTarget });
+		this.deliver(meta, context);
+
+		if (meta.onEnd) {
+			this.runHook(key, "onEnd", () => meta.onEnd!(context));
+		}
+		return true;
+	}
+
+	/**
+	 * Interrupts a player's active channel; onEnd still runs
+	 */
+	public cancelCast(player: Player): boolean {
+		const channel = this.activeChannels.get(player.UserId);
+		if (!channel) return false;
+
+		channel.cancelled = true;
+		return true;
+	}
+
+	/**
+	 * Checks if a player is currently channeling an ability
+	 */
+	public isChanneling(player: Player): boolean {
+		return this.activeChannels.has(player.UserId);
+	}
+
+	/**
+	 * Gets the seconds left on a player's ability cooldown (0 when ready)
+	 */
+	public getCooldownRemaining(player: Player, key: AbilityKey): number {
+		const endsAt = this.cooldowns.get(player.UserId)?.get(key);
+		if (endsAt === undefined) return 0;
+		return math.max(0, endsAt - Workspace.GetServerTimeNow());
+	}
+
+	/**
+	 * Clears a player's cooldowns, e.g. on respawn or from admin tools
+	 */
+	public resetCooldowns(player: Player): void {
+		this.cooldowns.delete(player.UserId);
+	}
+
+	/**
+	 * Gets a player's rank in an ability
+	 */
+	public getAbilityRank(player: Player, key: AbilityKey): number {
+		return this.playerDataService.getProfileKey(player, "AbilityRanks")?.[key] ?? MIN_ABILITY_RANK;
+	}
+
+	/**
+	 * Gets an ability's power, cost and cooldown at the player's current rank
+	 */
+	public getAbilityStats(player: Player, key: AbilityKey): AbilityRankStats {
+		return getAbilityRankStats(key, this.getAbilityRank(player, key));
+	}
+
+	/**
+	 * Raises an ability one rank if the player meets the level requirement and can pay for it
+	 */
+	public upgradeAbility(player: Player, key: AbilityKey): boolean {
+		const ranks = this.playerDataService.getProfileKey(player, "AbilityRanks");
+		const progression = this.playerDataService.getProfileKey(player, "Progression");
+		if (!ranks || !progression) return false;
+
+		const requirement = getAbilityUpgradeRequirement(ranks[key] + 1);
+		if (!requirement) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InvalidAction);
+			return false;
+		}
+
+		if (progression.Level < requirement.requiredLevel) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.AbilityRankLocked);
+			return false;
+		}
+
+		if (!this.playerDataService.hasEnoughCurrency(player, requirement.currency, requirement.amount)) {
+			this.messageService.sendLibraryMessage(player, MessageLibrary.InsufficientResources);
+			return false;
+		}
+
+		this.playerDataService.modifyPlayerCurrency(player, requirement.currency, -requirement.amount);
+		this.playerDataService.setProfileKey(player, "AbilityRanks", { ...ranks, [key]: requirement.rank });
+
+		this.messageService.sendLibraryMessage(player, MessageLibrary.AbilityUpgraded);
+		this.eventService.fire("abilityUpgraded", { player, key, rank: requirement.rank });
+		return true;
+	}
+
+	/**
+	 * Reorders a player's equipped abilities; the new order must hold exactly the same keys
+	 */
+	public reorderAbilities(player: Player, order: AbilityKey[]): boolean {
+		const abilities = this.playerDataService.getProfileKey(player, "Abilities");
+		if (!abilities || order.size() !== abilities.size()) return false;
+
+		const seen = new Set<AbilityKey>();
+		for (const key of order) {
+			if (seen.has(key) || !abilities.includes(key)) return false;
+			seen.add(key);
+		}
+
+		return this.playerDataService.setProfileKey(player, "Abilities", [...order]);
+	}
+
+	private isEquipped(player: Player, key: AbilityKey): boolean {
+		const abilities = this.playerDataService.getProfileKey(player, "Abilities");
+		return abilities?.includes(key) ?? false;
+	}
+
+	/**
+	 * Keeps the target only if it is a live hostile other than the caster that the ability's beam can
+	 * tether to (range, line of sight, attachments). Anything else casts untargeted; beam abilities then
+	 * reject the cast before anything is charged.
+	 */
+	private resolveTarget(caster: SSEntity, meta: AbilityMeta, target?: SSEntity): SSEntity | undefined {
+		if (!target || target === caster) return undefined;
+		if (!this.entityService.isAlive(target) || !this.entityService.isHostile(caster, target)) return undefined;
+
+		if (meta.beam !== undefined && !this.beamService.canAttach(meta.beam, caster, target)) return undefined;
+		return target;
+	}
+
+	private startCooldown(player: Player, key: AbilityKey, duration: number): void {
+		let playerCooldowns = this.cooldowns.get(player.UserId);
+		if (!playerCooldowns) {
+			playerCooldowns = new Map();
+			this.cooldowns.set(player.UserId, playerCooldowns);
+		}
+
+		// Server time so clients can render the overlay against the same clock
+		const endsAt = Workspace.GetServerTimeNow() + duration;
+		playerCooldowns.set(key, endsAt);
+		ServerSend.AbilityCooldown(player, key, endsAt);
+	}
+
+	private playAnimation(caster: SSEntity, meta: AbilityMeta): void {
+		const track = GetTrack(caster, meta.animationKey) ?? loadAnimation(caster, meta.animationKey);
+		if (!track) {
+			warn(`AbilityService: No animation track ${meta.animationKey} for ${caster.Name}`);
+			return;
+		}
+		track.Play();
+	}
+
+	/** Launches the ability's projectile and attaches its beam */
+	private deliver(meta: AbilityMeta, context: AbilityCastContext): void {
+		if (meta.projectile) {
+			this.launchProjectile(meta, context);
+		}
+
+		if (meta.beam && context.target) {
+			this.beamService.attach(meta.beam, context.caster, context.target, { drainAmount: context.power });
+		}
+	}
+
+	/** Fires the ability's projectile at its target, or along the caster's facing when untargeted */
+	private launchProjectile(meta: AbilityMeta, context: AbilityCastContext): void {
+		const origin = context.caster.HumanoidRootPart.Position;
+		const direction = context.target
+			? context.target.HumanoidRootPart.Position.sub(origin)
+			: context.caster.HumanoidRootPart.CFrame.LookVector;
+
+		this.projectileService.launch(meta.projectile!, origin, direction, {
+			caster: context.caster,
+			damage: context.power,
+			target: context.target,
+		});
+	}
+
+	private startChannel(player: Player, key: AbilityKey, meta: AbilityMeta, context: AbilityCastContext): void {
+		const channel: ActiveChannel = { key, cancelled: false };
+		this.activeChannels.set(player.UserId, channel);
+
+		task.spawn(() => {
+			const interval = meta.tickInterval ?? this.DEFAULT_TICK_INTERVAL;
+			let elapsed = 0;
+
+			while (elapsed < meta.channelDuration! && !channel.cancelled) {
+				const deltaTime = task.wait(interval);
+				elapsed += deltaTime;
+
+				if (channel.cancelled || !this.entityService.isAlive(context.caster)) break;
+				if (this.statusEffectService.isActionLocked(context.caster)) {
+					channel.cancelled = true;
+					break;
+				}
+				if (meta.onTick && !this.runHook(key, "onTick", () => meta.onTick!(context, deltaTime))) break;
+			}
+
+			if (this.activeChannels.get(player.UserId) === channel) {
+				this.activeChannels.delete(player.UserId);
+			}
+
+			if (meta.onEnd) {
+				this.runHook(key, "onEnd", () => meta.onEnd!(context));
+			}
+			this.eventService.fire("abilityEnded", { player, key, cancelled: channel.cancelled });
+		});
+	}
+
+	/** Ability hooks are content code; a failing hook must not break the service */
+	private runHook(key: AbilityKey, hook: string, run: () => void): boolean {
+		const [success, err] = pcall(run);
+		if (!success) {
+			warn(`AbilityService: ${key}.${hook} failed: ${err}`);
+		}
+		return success;
+	}
+
+	private setupPlayerEvents(): void {
+		Players.PlayerRemoving.Connect((player) => {
+			this.cancelCast(player);
+			this.activeChannels.delete(player.UserId);
+			this.cooldowns.delete(player.UserId);
+		});
+	}
+
+	private setupNetworkHandlers(): void {
+		ServerHandle.CastAbility((player, key, target) => {
+			if (!typeIs(key, "string") || !isAbilityKey(key)) return false;
+
+			let targetEntity: SSEntity | undefined;
+			if (target !== undefined) {
+				if (!typeIs(target, "Instance") || !target.IsA("Model")) return false;
+				// The client picks whatever character is under the cursor; unregistered ones cast untargeted
+				targetEntity = this.entityService.isEntity(target) ? target : undefined;
+			}
+
+			return this.cast(player, key, targetEntity);
+		});
+
+		ServerHandle.ReorderAbilities((player, order) => {
+			if (!typeIs(order, "table")) return false;
+
+			const keys: AbilityKey[] = [];
+			for (const key of order as unknown[]) {
+				if (!typeIs(key, "string") || !isAbilityKey(key)) return false;
+				keys.push(key);
+			}
+			return this.reorderAbilities(player, keys);
+		});
+
+		ServerHandle.UpgradeAbility((player, key) => {
+			if (!typeIs(key, "string") || !isAbilityKey(key)) return false;
+			return this.upgradeAbility(player, key);
+		});
+	}
+}
@@ -0,0 +1,367 @@
+/**
+ * @file        src/server/services/BeamService.ts
+ * @module      BeamService
+ * @layer       Server
+ * @description Creates BeamCatalog beams between attachments on a caster and a target, runs their
+ *              hooks from a single Heartbeat loop and tears them down on lifetime, death, range,
+ *              line of sight or cancel. Drain beams move a resource from target to caster while they hold;
+ *              Health is taken as CombatService damage, and Chain beams arc it onto nearby hostiles.
+ */
+
+import { RunService, TweenService, Workspace } from "@rbxts/services";
+import { BeamCatalog, BeamDefinition, BeamDrain, BeamKey } from "shared/definitions/Beams";
+import { generateUniqueId } from "shared/helpers";
+import { CharacterAttachments } from "shared/types/CharacterAttachments";
+import { SSEntity } from "shared/types/SSEntity";
+import { CombatService } from "./CombatService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+import { PhysicsBehaviorService } from "./PhysicsBehaviorService";
+
+/** Picks the attachment a beam end is fixed to */
+export type BeamAttachmentResolver = (character: CharacterAttachments) => Attachment;
+
+/** Per-beam overrides of the catalog entry */
+export interface BeamOptions {
+	/** Attachment on the caster; the right hand grip by default */
+	readonly from?: BeamAttachmentResolver;
+	/** Attachment on the target; the chest by default */
+	readonly to?: BeamAttachmentResolver;
+	/** Replaces the definition's lifetime */
+	readonly lifetime?: number;
+	/** Replaces the definition's drain amount per interval, e.g. with a ranked ability's power */
+	readonly drainAmount?: number;
+}
+
+export type BeamEndReason = "expired" | "cancelled" | "died" | "detached" | "outOfRange" | "lineOfSight";
+
+/** A running beam; `cancel` ends it early */
+export interface BeamHandle {
+	readonly id: string;
+	readonly key: BeamKey;
+	readonly beam: Beam;
+	readonly caster: SSEntity;
+	readonly target: SSEntity;
+	readonly startedAt: number;
+	readonly endsAt: number;
+	readonly cancel: () => void;
+}
+
+interface ActiveBeam {
+	readonly handle: BeamHandle;
+	readonly definition: BeamDefinition;
+	readonly tween?: Tween;
+	readonly drainAmount: number;
+	nextDrainAt: number;
+	/** Total resource moved from target to caster so far */
+	drained: number;
+}
+
+export class BeamService {
+	private static instance: BeamService;
+	private activeBeams = new Map<string, ActiveBeam>();
+	private combatService = CombatService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+	private physicsBehaviorService = PhysicsBehaviorService.getInstance();
+	/** Curve offset the definition's tween swings the beam to */
+	private readonly WOBBLE_CURVE = 1.5;
+	private readonly DEFAULT_FROM: BeamAttachmentResolver = (character) => character.RightHand.RightGripAttachment;
+	private readonly DEFAULT_TO: BeamAttachmentResolver = (character) => character.UpperTorso.BodyFrontAttachment;
+
+	private constructor() {
+		this.startTickLoop();
+	}
+
+	public static getInstance(): BeamService {
+		if (!BeamService.instance) {
+			BeamService.instance = new BeamService();
+		}
+		return BeamService.instance;
+	}
+
+	/**
+	 * Checks whether a beam could attach from a caster to a target right now, e.g. before paying for it
+	 */
+	public canAttach(key: BeamKey, caster: SSEntity, target: SSEntity, options: BeamOptions = {}): boolean {
+		return !typeIs(this.resolveTether(BeamCatalog[key], caster, target, options), "string");
+	}
+
+	/**
+	 * Attaches a beam from a caster to a target
+	 */
+	public attach(key: BeamKey, caster: SSEntity, target: SSEntity, options: BeamOptions = {}): BeamHandle | undefined {
+		const definition: BeamDefinition = BeamCatalog[key];
+		const tether = this.resolveTether(definition, caster, target, options);
+		if (typeIs(tether, "string")) {
+			warn(`BeamService: Cannot attach ${key} from ${caster.Name} to ${target.Name} (${tether})`);
+			return undefined;
+		}
+		const [attachment0, attachment1] = tether;
+
+		const beam = this.createBeam(key, definition, attachment0, attachment1);
+		const startedAt = Workspace.GetServerTimeNow();
+		const id = generateUniqueId();
+
+		const handle: BeamHandle = {
+			id,
+			key,
+			beam,
+			caster,
+			target,
+			startedAt,
+			endsAt: startedAt + (options.lifetime ?? definition.lifetime),
+			cancel: () => this.detach(id, "cancelled"),
+		};
+
+		let tween: Tween | undefined;
+		if (definition.tweenInfo) {
+			tween = TweenService.Create(beam, definition.tweenInfo, {
+				CurveSize0: this.WOBBLE_CURVE,
+				CurveSize1: -this.WOBBLE_CURVE,
+			});
+			tween.Play();
+		}
+
+		this.activeBeams.set(id, {
+			handle,
+			definition,
+			tween,
+			drainAmount: options.drainAmount ?? definition.drain?.amount ?? 0,
+			nextDrainAt: startedAt + (definition.drain?.interval ?? 0),
+			drained: 0,
+		});
+		this.applyPhysics(handle, definition);
+		this.runHook(handle, "onStart", () => definition.onStart?.(beam));
+		this.eventService.fire("beamStarted", { id, key, caster, target });
+		return handle;
+	}
+
+	/**
+	 * Ends a beam early
+	 */
+	public detach(id: string, reason: BeamEndReason = "cancelled"): boolean {
+		const active = this.activeBeams.get(id);
+		if (!active) return false;
+
+		this.activeBeams.delete(id);
+		const { handle, definition, tween } = active;
+
+		if (definition.drain) {
+			this.eventService.fire("beamDrained", {
+				id,
+				key: handle.key,
+				caster: handle.caster,
+				target: handle.target,
+				resource: definition.drain.resource,
+				total: active.drained,
+			});
+		}
+
+		tween?.Cancel();
+		this.runHook(handle, "onEnd", () => definition.onEnd?.(handle.beam));
+		handle.beam.Destroy();
+		this.eventService.fire("beamEnded", {
+			id,
+			key: handle.key,
+			caster: handle.caster,
+			target: handle.target,
+			reason,
+		});
+		return true;
+	}
+
+	/**
+	 * Ends every beam an entity casts or is targeted by
+	 */
+	public detachAll(entity: SSEntity, reason: BeamEndReason = "cancelled"): void {
+		for (const handle of this.getBeams(entity)) {
+			this.detach(handle.id, reason);
+		}
+	}
+
+	/**
+	 * Gets the beams an entity casts or is targeted by
+	 */
+	public getBeams(entity: SSEntity): BeamHandle[] {
+		const handles: BeamHandle[] = [];
+		for (const [, active] of this.activeBeams) {
+			if (active.handle.caster === entity || active.handle.target === entity) {
+				handles.push(active.handle);
+			}
+		}
+		return handles;
+	}
+
+	/** Finds both ends of a new tether, or returns why it cannot form */
+	private resolveTether(
+		definition: BeamDefinition,
+		caster: SSEntity,
+		target: SSEntity,
+		options: BeamOptions,
+	): [Attachment, Attachment] | string {
+		if (!this.entityService.isAlive(caster) || !this.entityService.isAlive(target)) return "dead entity";
+
+		const attachment0 = this.resolveAttachment(caster, options.from ?? this.DEFAULT_FROM);
+		const attachment1 = this.resolveAttachment(target, options.to ?? this.DEFAULT_TO);
+		if (!attachment0 || !attachment1) return "missing attachments";
+
+		return this.getTetherBreak(definition, caster, target, attachment0, attachment1) ?? [attachment0, attachment1];
+	}
+
+	private resolveAttachment(entity: SSEntity, resolve: BeamAttachmentResolver): Attachment | undefined {
+		const [success, attachment] = pcall(() => resolve(entity as unknown as CharacterAttachments));
+		return success && typeIs(attachment, "Instance") && attachment.IsA("Attachment") ? attachment : undefined;
+	}
+
+	private createBeam(key: BeamKey, definition: BeamDefinition, attachment0: Attachment, attachment1: Attachment) {
+		const beam = new Instance("Beam");
+		beam.Name = `Beam_${key}`;
+		beam.Color = definition.color;
+		beam.Width0 = definition.width0;
+		beam.Width1 = definition.width1;
+		beam.Segments = definition.segments ?? beam.Segments;
+		beam.FaceCamera = true;
+		if (definition.texture) {
+			beam.Texture = definition.texture;
+		}
+		beam.Attachment0 = attachment0;
+		beam.Attachment1 = attachment1;
+		beam.Parent = attachment0.Parent;
+		return beam;
+	}
+
+	/** Pull and Repel apply once when the tether forms; Chain arcs each Health drain (see drain) */
+	private applyPhysics(handle: BeamHandle, definition: BeamDefinition): void {
+		const casterPosition = handle.caster.GetPivot().Position;
+		if (definition.physicsType === "Pull") {
+			this.physicsBehaviorService.pull(handle.target, casterPosition);
+		} else if (definition.physicsType === "Repel") {
+			this.physicsBehaviorService.repel(handle.target, casterPosition);
+		} else if (definition.physicsType === "Chain" && definition.drain?.resource !== "Health") {
+			warn(`BeamService: ${handle.key} is a Chain beam without a Health drain; it has no damage to chain`);
+		}
+	}
+
+	private startTickLoop(): void {
+		RunService.Heartbeat.Connect((dt) => {
+			const now = Workspace.GetServerTimeNow();
+			const beams: ActiveBeam[] = [];
+			for (const [, active] of this.activeBeams) beams.push(active);
+
+			for (const active of beams) {
+				this.tick(active, dt, now);
+			}
+		});
+	}
+
+	private tick(active: ActiveBeam, dt: number, now: number): void {
+		const { handle, definition } = active;
+		if (!this.activeBeams.has(handle.id)) return;
+
+		if (!this.entityService.isAlive(handle.caster) || !this.entityService.isAlive(handle.target)) {
+			this.detach(handle.id, "died");
+			return;
+		}
+		if (!handle.beam.Attachment0?.Parent || !handle.beam.Attachment1?.Parent) {
+			this.detach(handle.id, "detached");
+			return;
+		}
+		const broken = this.getTetherBreak(
+			definition,
+			handle.caster,
+			handle.target,
+			handle.beam.Attachment0,
+			handle.beam.Attachment1,
+		);
+		if (broken) {
+			this.detach(handle.id, broken);
+			return;
+		}
+		if (now >= handle.endsAt) {
+			this.detach(handle.id, "expired");
+			return;
+		}
+
+		if (definition.drain && now >= active.nextDrainAt) {
+			active.nextDrainAt = now + definition.drain.interval;
+			this.drain(active, definition.drain, definition.physicsType === "Chain");
+		}
+
+		this.runHook(handle, "onTick", () => definition.onTick?.(handle.beam, dt));
+	}
+
+	/** Returns why the tether cannot hold, or undefined while it is within range and in sight */
+	private getTetherBreak(
+		definition: BeamDefinition,
+		caster: SSEntity,
+		target: SSEntity,
+		attachment0: Attachment,
+		attachment1: Attachment,
+	): BeamEndReason | undefined {
+		const offset = attachment1.WorldPosition.sub(attachment0.WorldPosition);
+		if (definition.maxRange !== undefined && offset.Magnitude > definition.maxRange) {
+			return "outOfRange";
+		}
+
+		if (definition.requiresLineOfSight) {
+			const params = new RaycastParams();
+			params.FilterType = Enum.RaycastFilterType.Exclude;
+			params.FilterDescendantsInstances = [caster, target];
+			if (Workspace.Raycast(attachment0.WorldPosition, offset, params)) {
+				return "lineOfSight";
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Moves up to the drain amount from target to caster, never more than the target has. Health is dealt
+	 * as damage so statuses and resistances apply, and the caster only gains what the target lost.
+	 * A chained Health drain also jumps to the target's nearest hostiles with falloff; only the
+	 * tethered target feeds the caster.
+	 */
+	private drain(active: ActiveBeam, drain: BeamDrain, chained: boolean): void {
+		const { handle } = active;
+		const available = this.entityService.getResource(handle.target, drain.resource) ?? 0;
+		const amount = math.min(active.drainAmount, available);
+		if (amount <= 0) return;
+
+		let moved = amount;
+		if (drain.resource === "Health") {
+			const damageType = drain.damageType ?? "physical";
+			const result = this.combatService.applyDamage({
+				source: handle.caster,
+				target: handle.target,
+				baseAmount: amount,
+				damageType,
+				canCrit: false,
+			});
+			moved = result.applied ? math.min(result.finalAmount, available) : 0;
+
+			if (chained && moved > 0) {
+				this.physicsBehaviorService.chain({
+					source: handle.caster,
+					target: handle.target,
+					origin: handle.caster.GetPivot().Position,
+					damage: amount,
+					damageType,
+				});
+			}
+		} else if (!this.entityService.modifyResource(handle.target, drain.resource, -amount)) {
+			return;
+		}
+		if (moved <= 0) return;
+
+		this.entityService.modifyResource(handle.caster, drain.resource, moved);
+		active.drained += moved;
+	}
+
+	/** Beam hooks are content code; a failing hook must not stop the tick loop */
+	private runHook(handle: BeamHandle, hook: string, run: () => void): void {
+		const [success, err] = pcall(run);
+		if (!success) {
+			warn(`BeamService: ${handle.key}.${hook} failed: ${err}`);
+		}
+	}
+}
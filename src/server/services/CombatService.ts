@@ -5,11 +5,51 @@
  * @description Service for managing combat mechanics, damage calculation, and battle events.
  */
 
+import {
+	DamageStatusModifiers,
+	DamageTypeKey,
+	DamageTypeMeta,
+} from "shared/definitions/Combat";
+import { StatusEffectKey } from "shared/definitions/StatusEffect";
+import { SSEntity } from "shared/types/SSEntity";
+import { ConfigService } from "./ConfigService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+
+export interface DamageEvent {
+	/** Undefined for environmental damage (falls, hazards) */
+	readonly source?: SSEntity;
+	readonly target: SSEntity;
+	readonly baseAmount: number;
+	readonly damageType: DamageTypeKey;
+	/** Set false for damage that should never crit, e.g. damage over time */
+	readonly canCrit?: boolean;
+}
+
+export interface DamageResult extends DamageEvent {
+	/** After the config multiplier and attacker attribute scaling */
+	readonly scaledAmount: number;
+	readonly isCritical: boolean;
+	/** Target resistance to this damage type (negative = weakness) */
+	readonly resistance: number;
+	/** Product of the source's outgoing and the target's incoming status modifiers */
+	readonly statusMultiplier: number;
+	readonly finalAmount: number;
+	/** True when the target took no damage because of a status effect (e.g. Invulnerable) */
+	readonly blocked: boolean;
+	/** Whether the damage was applied to the target's health */
+	readonly applied: boolean;
+}
+
 export class CombatService {
 	private static instance: CombatService;
+	private configService = ConfigService.getInstance();
+	private eventService = EventService.getInstance();
+	private entityService = EntityService.getInstance();
+	private activeStatusEffects = new Map<Model, Set<StatusEffectKey>>();
 
 	private constructor() {
-		// Initialize combat systems
+		this.setupEntityEvents();
 	}
 
 	public static getInstance(): CombatService {
@@ -20,24 +60,56 @@ export class CombatService {
 	}
 
 	/**
-	 * Calculates damage between attacker and target
+	 * Runs a damage event through scaling, crits, resistances and status modifiers without applying it
 	 */
-	public calculateDamage(attackerStats: { attack: number; }, targetStats: { defense: number; }): number {
-		// Basic damage calculation
-		const baseDamage = attackerStats.attack;
-		const defense = targetStats.defense;
-		const finalDamage = math.max(1, baseDamage - defense);
-		
-		return finalDamage;
+	public calculateDamage(event: DamageEvent): DamageResult {
+		const baseMultiplier = this.configService.get<number>("combat.baseDamageMultiplier") ?? 1;
+		const scaledAmount = event.baseAmount * baseMultiplier * this.getScaling(event.source, event.damageType);
+
+		const isCritical = event.canCrit !== false && math.random() < this.getCritChance(event.source);
+		const critMultiplier = isCritical ? (this.configService.get<number>("combat.criticalHitMultiplier") ?? 1) : 1;
+
+		const targetStats = this.entityService.getStats(event.target);
+		const resistance = math.clamp(targetStats?.resistances[event.damageType] ?? 0, -1, 1);
+		const statusMultiplier = this.getStatusMultiplier(event.source, "outgoing") * this.getStatusMultiplier(event.target, "incoming");
+
+		let finalAmount = scaledAmount * critMultiplier * (1 - resistance) * statusMultiplier;
+		if (event.damageType === "physical") {
+			// Flat reduction from the target's defense stat
+			finalAmount -= targetStats?.defense ?? 0;
+		}
+
+		// Hits always deal at least 1 unless a status blocks them or the target is immune to the type
+		const blocked = statusMultiplier <= 0;
+		const immune = resistance >= 1;
+		finalAmount = blocked || immune ? 0 : math.max(1, math.floor(finalAmount));
+
+		return {
+			...event,
+			scaledAmount,
+			isCritical,
+			resistance,
+			statusMultiplier,
+			finalAmount,
+			blocked,
+			applied: false,
+		};
 	}
 
 	/**
-	 * Applies damage to a target
+	 * Calculates a damage event and applies it to the target's health
 	 */
-	public applyDamage(targetId: string, damage: number): boolean {
-		// Implementation would depend on the target type (player, NPC, etc.)
-		print(`CombatService: Applied ${damage} damage to ${targetId}`);
-		return true;
+	public applyDamage(event: DamageEvent): DamageResult {
+		const result = this.calculateDamage(event);
+		let applied = false;
+
+		if (result.finalAmount > 0) {
+			applied = this.entityService.modifyHealth(event.target, -result.finalAmount);
+		}
+
+		const finalResult: DamageResult = { ...result, applied };
+		this.eventService.fire("damageDealt", finalResult);
+		return finalResult;
 	}
 
 	/**
@@ -46,4 +118,67 @@ export class CombatService {
 	public checkHit(accuracy: number): boolean {
 		return math.random() <= accuracy;
 	}
+
+	/**
+	 * Marks a damage-modifying status effect as active or inactive on an entity
+	 */
+	public setStatusEffect(entity: Model, effect: StatusEffectKey, active: boolean): void {
+		let effects = this.activeStatusEffects.get(entity);
+
+		if (active) {
+			if (!effects) {
+				effects = new Set();
+				this.activeStatusEffects.set(entity, effects);
+			}
+			effects.add(effect);
+		} else if (effects) {
+			effects.delete(effect);
+			if (effects.size() === 0) this.activeStatusEffects.delete(entity);
+		}
+	}
+
+	/**
+	 * Checks if an entity has a status effect active
+	 */
+	public hasStatusEffect(entity: Model, effect: StatusEffectKey): boolean {
+		return this.activeStatusEffects.get(entity)?.has(effect) ?? false;
+	}
+
+	private setupEntityEvents(): void {
+		this.eventService.on("entityUnregistered", (data: { model: Model }) => {
+			this.activeStatusEffects.delete(data.model);
+		});
+	}
+
+	/** Attacker scaling: the damage type's attribute for players, attack stat for NPCs */
+	private getScaling(source: SSEntity | undefined, damageType: DamageTypeKey): number {
+		const stats = source && this.entityService.getStats(source);
+		if (!stats) return 1;
+
+		const perPoint = this.configService.get<number>("combat.attributeScaling") ?? 0;
+		const points = stats.attributes ? stats.attributes[DamageTypeMeta[damageType].scalingAttribute] : stats.attack;
+		return 1 + points * perPoint;
+	}
+
+	private getCritChance(source: SSEntity | undefined): number {
+		const stats = source && this.entityService.getStats(source);
+		if (!stats) return 0;
+
+		const luck = stats.attributes?.lck ?? 0;
+		const chance = this.configService.get<number>("combat.criticalHitChance") ?? 0;
+		return chance + luck * (this.configService.get<number>("combat.critChancePerLuck") ?? 0);
+	}
+
+	private getStatusMultiplier(entity: Model | undefined, direction: "outgoing" | "incoming"): number {
+		if (!entity) return 1;
+
+		const effects = this.activeStatusEffects.get(entity);
+		if (!effects) return 1;
+
+		let multiplier = 1;
+		for (const effect of effects) {
+			multiplier *= DamageStatusModifiers[effect]?.[direction] ?? 1;
+		}
+		return multiplier;
+	}
 }
@@ -16,12 +16,34 @@ interface GameConfig {
 		baseDamageMultiplier: number;
 		criticalHitChance: number;
 		criticalHitMultiplier: number;
+		attributeScaling: number;
+		critChancePerLuck: number;
+		ccImmunityDuration: number;
+		ccDiminishingWindow: number;
+		ccDiminishingFactor: number;
+		ccMaxDiminishingSteps: number;
+		pullStopDistance: number;
+		pullDuration: number;
+		repelDistance: number;
+		repelDuration: number;
+		chainCount: number;
+		chainRadius: number;
+		chainFalloff: number;
 	};
 	economy: {
 		maxCurrency: number;
 		defaultStartingGold: number;
 		shopRefreshInterval: number;
 	};
+	dataStore: {
+		autosaveInterval: number;
+		maxRetryAttempts: number;
+		retryBaseDelay: number;
+		retryMaxDelay: number;
+		shutdownTimeout: number;
+		snapshotInterval: number;
+		maxSnapshots: number;
+	};
 	world: {
 		maxPlayersPerServer: number;
 		worldSize: Vector3;
@@ -141,12 +163,34 @@ export class ConfigService {
 				baseDamageMultiplier: 1.0,
 				criticalHitChance: 0.05, // 5%
 				criticalHitMultiplier: 2.0,
+				attributeScaling: 0.02, // +2% damage per point of the damage type's scaling attribute
+				critChancePerLuck: 0.001, // +0.1% crit chance per point of luck
+				ccImmunityDuration: 2, // Seconds of CC immunity after a CC effect ends
+				ccDiminishingWindow: 15, // Seconds without CC before diminishing returns reset
+				ccDiminishingFactor: 0.5, // Each repeated CC in the window lasts this fraction of the previous
+				ccMaxDiminishingSteps: 3, // Repeats after full, half and quarter duration are resisted
+				pullStopDistance: 5, // Studs short of the source a pulled target lands
+				pullDuration: 0.5, // Seconds a pulled target is airborne, whatever the distance
+				repelDistance: 15, // Studs a repelled target is knocked back
+				repelDuration: 0.4, // Seconds a repelled target is airborne
+				chainCount: 3, // Extra targets a chain jumps to
+				chainRadius: 20, // Studs a chain can jump from its previous target
+				chainFalloff: 0.7, // Each jump deals this fraction of the previous jump's damage
 			},
 			economy: {
 				maxCurrency: 999999999,
 				defaultStartingGold: 100,
 				shopRefreshInterval: 3600, // 1 hour in seconds
 			},
+			dataStore: {
+				autosaveInterval: 300, // 5 minutes in seconds
+				maxRetryAttempts: 5,
+				retryBaseDelay: 1, // doubles after every failed attempt
+				retryMaxDelay: 16,
+				shutdownTimeout: 25, // BindToClose allows 30 seconds
+				snapshotInterval: 3600, // 1 hour in seconds
+				maxSnapshots: 20,
+			},
 			world: {
 				maxPlayersPerServer: 50,
 				worldSize: new Vector3(1000, 500, 1000),
@@ -0,0 +1,311 @@
+/**
+ * @file        src/server/services/EntityService.ts
+ * @module      EntityService
+ * @layer       Server
+ * @description Registry of damageable entities keyed by their SSEntity model, exposing health,
+ *              team, stats and alive state the same way for players and NPCs.
+ */
+
+import { CollectionService, Players } from "@rbxts/services";
+import {
+	areTeamsHostile,
+	CombatTeamKey,
+	DamageResistances,
+	ENTITY_TEAM_ATTRIBUTE,
+	SSENTITY_TAG,
+} from "shared/definitions/Combat";
+import { NPCKey } from "shared/definitions/NPC";
+import { AttributesMap } from "shared/definitions/ProfileDefinitions/Attributes";
+import { ResourceKey } from "shared/definitions/Resources";
+import { RigInfo, SSEntityHelper } from "shared/helpers";
+import { SSEntity } from "shared/types/SSEntity";
+import { EventService } from "./EventService";
+import { NPCService } from "./NPCService";
+import { PlayerDataService } from "./PlayerDataService";
+import { ResourceService } from "./ResourceService";
+
+/** What backs an entity: a player's character or a spawned NPC */
+export type EntityOwner = { readonly kind: "player"; readonly player: Player } | { readonly kind: "npc"; readonly npcId: string };
+
+/** Combat-relevant stats, uniform across players and NPCs */
+export interface EntityStats {
+	readonly attack: number;
+	readonly defense: number;
+	readonly speed: number;
+	readonly resistances: DamageResistances;
+	/** Profile attributes; players only */
+	readonly attributes?: AttributesMap;
+}
+
+interface EntityRecord {
+	readonly model: SSEntity;
+	readonly owner: EntityOwner;
+	readonly team: CombatTeamKey;
+}
+
+export class EntityService {
+	private static instance: EntityService;
+	private entities = new Map<Model, EntityRecord>();
+	private playerEntities = new Map<number, SSEntity>();
+	private npcEntities = new Map<string, SSEntity>();
+	private eventService = EventService.getInstance();
+	private npcService = NPCService.getInstance();
+	private playerDataService = PlayerDataService.getInstance();
+	private resourceService = ResourceService.getInstance();
+
+	private constructor() {
+		this.setupPlayerEvents();
+		this.setupNPCEvents();
+	}
+
+	public static getInstance(): EntityService {
+		if (!EntityService.instance) {
+			EntityService.instance = new EntityService();
+		}
+		return EntityService.instance;
+	}
+
+	/**
+	 * Registers a model as a damageable entity
+	 */
+	public register(model: SSEntity, owner: EntityOwner, team: CombatTeamKey): void {
+		if (this.entities.has(model)) {
+			this.unregister(model);
+		}
+
+		this.entities.set(model, { model, owner, team });
+		if (owner.kind === "player") {
+			this.playerEntities.set(owner.player.UserId, model);
+		} else {
+			this.npcEntities.set(owner.npcId, model);
+		}
+
+		CollectionService.AddTag(model, SSENTITY_TAG);
+		model.SetAttribute(ENTITY_TEAM_ATTRIBUTE, team);
+		this.eventService.fire("entityRegistered", { model, owner, team });
+	}
+
+	/**
+	 * Removes a model from the registry
+	 */
+	public unregister(model: Model): boolean {
+		const record = this.entities.get(model);
+		if (!record) return false;
+
+		this.entities.delete(model);
+		if (record.owner.kind === "player") {
+			if (this.playerEntities.get(record.owner.player.UserId) === model) {
+				this.playerEntities.delete(record.owner.player.UserId);
+			}
+		} else {
+			this.npcEntities.delete(record.owner.npcId);
+		}
+
+		CollectionService.RemoveTag(model, SSENTITY_TAG);
+		this.eventService.fire("entityUnregistered", { model, owner: record.owner });
+		return true;
+	}
+
+	/**
+	 * Checks if a model is a registered entity
+	 */
+	public isEntity(model: Model): model is SSEntity {
+		return this.entities.has(model);
+	}
+
+	/**
+	 * Gets the player or NPC behind an entity
+	 */
+	public getOwner(model: Model): EntityOwner | undefined {
+		return this.entities.get(model)?.owner;
+	}
+
+	/**
+	 * Gets the entity model of a player's current character
+	 */
+	public getPlayerEntity(player: Player): SSEntity | undefined {
+		return this.playerEntities.get(player.UserId);
+	}
+
+	/**
+	 * Gets the entity model of a spawned NPC
+	 */
+	public getNPCEntity(npcId: string): SSEntity | undefined {
+		return this.npcEntities.get(npcId);
+	}
+
+	/**
+	 * Gets an entity's combat team
+	 */
+	public getTeam(model: Model): CombatTeamKey | undefined {
+		return this.entities.get(model)?.team;
+	}
+
+	/**
+	 * Checks if two entities may damage each other
+	 */
+	public isHostile(a: Model, b: Model): boolean {
+		const teamA = this.getTeam(a);
+		const teamB = this.getTeam(b);
+		return teamA !== undefined && teamB !== undefined && areTeamsHostile(teamA, teamB);
+	}
+
+	/**
+	 * Gets an entity's current health
+	 */
+	public getHealth(model: Model): number | undefined {
+		const owner = this.getOwner(model);
+		if (!owner) return undefined;
+
+		if (owner.kind === "player") {
+			return this.resourceService.getPlayerResource(owner.player, "Health");
+		}
+		return this.npcService.getSpawnedNPC(owner.npcId)?.health;
+	}
+
+	/**
+	 * Gets an entity's maximum health
+	 */
+	public getMaxHealth(model: Model): number | undefined {
+		const owner = this.getOwner(model);
+		if (!owner) return undefined;
+
+		if (owner.kind === "player") {
+			return this.resourceService.getPlayerMaxResource(owner.player, "Health");
+		}
+		return this.npcService.getSpawnedNPC(owner.npcId)?.maxHealth;
+	}
+
+	/**
+	 * Checks if an entity is registered and still alive
+	 */
+	public isAlive(model: Model): boolean {
+		const owner = this.getOwner(model);
+		if (!owner) return false;
+
+		if (owner.kind === "npc") {
+			return this.npcService.getSpawnedNPC(owner.npcId)?.isAlive ?? false;
+		}
+		return (this.getHealth(model) ?? 0) > 0;
+	}
+
+	/**
+	 * Changes an entity's health by a delta (negative to damage), routed to ResourceService or NPCService
+	 */
+	public modifyHealth(model: Model, delta: number): boolean {
+		const owner = this.getOwner(model);
+		if (!owner || !this.isAlive(model)) return false;
+
+		if (owner.kind === "player") {
+			return this.resourceService.modifyPlayerResource(owner.player, "Health", delta);
+		}
+		return delta < 0 ? this.npcService.damageNPC(owner.npcId, -delta) : this.npcService.healNPC(owner.npcId, delta);
+	}
+
+	/**
+	 * Gets an entity's current amount of a resource; NPCs only track Health
+	 */
+	public getResource(model: Model, resourceKey: ResourceKey): number | undefined {
+		if (resourceKey === "Health") return this.getHealth(model);
+
+		const owner = this.getOwner(model);
+		return owner?.kind === "player" ? this.resourceService.getPlayerResource(owner.player, resourceKey) : undefined;
+	}
+
+	/**
+	 * Changes an entity's resource by a delta; NPCs only track Health
+	 */
+	public modifyResource(model: Model, resourceKey: ResourceKey, delta: number): boolean {
+		if (resourceKey === "Health") return this.modifyHealth(model, delta);
+
+		const owner = this.getOwner(model);
+		if (owner?.kind !== "player" || !this.isAlive(model)) return false;
+		return this.resourceService.modifyPlayerResource(owner.player, resourceKey, delta);
+	}
+
+	/**
+	 * Gets an entity's combat stats
+	 */
+	public getStats(model: Model): EntityStats | undefined {
+		const owner = this.getOwner(model);
+		if (!owner) return undefined;
+
+		if (owner.kind === "player") {
+			const attributes = this.playerDataService.getProfileKey(owner.player, "Attributes");
+			const humanoid = model.FindFirstChildOfClass("Humanoid");
+			return {
+				attack: 0,
+				defense: 0,
+				speed: humanoid ? humanoid.WalkSpeed / 16 : 1,
+				resistances: {},
+				attributes,
+			};
+		}
+
+		const npc = this.npcService.getSpawnedNPC(owner.npcId);
+		const meta = npc && this.npcService.getNPCMeta(npc.npcKey);
+		if (!meta) return undefined;
+
+		return {
+			attack: meta.baseStats.attack,
+			defense: meta.baseStats.defense,
+			speed: meta.baseStats.speed,
+			resistances: meta.resistances ?? {},
+		};
+	}
+
+	/**
+	 * Gets registered entities within a radius, optionally only those alive and hostile to `relativeTo`
+	 */
+	public getEntitiesInRadius(origin: CFrame, radius: number, relativeTo?: Model): RigInfo[] {
+		return SSEntityHelper.getRigsInRadius(origin, radius).filter((info) => {
+			if (!this.isAlive(info.rig)) return false;
+			if (relativeTo && (info.rig === relativeTo || !this.isHostile(relativeTo, info.rig))) return false;
+			return true;
+		});
+	}
+
+	/**
+	 * Gets every registered entity
+	 */
+	public getAllEntities(): SSEntity[] {
+		const models: SSEntity[] = [];
+		for (const [, record] of this.entities) {
+			models.push(record.model);
+		}
+		return models;
+	}
+
+	private setupPlayerEvents(): void {
+		const trackCharacters = (player: Player) => {
+			if (player.Character) {
+				this.register(player.Character as SSEntity, { kind: "player", player }, "Players");
+			}
+			player.CharacterAdded.Connect((character) => {
+				this.register(character as SSEntity, { kind: "player", player }, "Players");
+			});
+			player.CharacterRemoving.Connect((character) => {
+				this.unregister(character);
+			});
+		};
+
+		Players.GetPlayers().forEach(trackCharacters);
+		Players.PlayerAdded.Connect(trackCharacters);
+
+		Players.PlayerRemoving.Connect((player) => {
+			const character = this.playerEntities.get(player.UserId);
+			if (character) this.unregister(character);
+		});
+	}
+
+	private setupNPCEvents(): void {
+		this.eventService.on("npcSpawned", (data: { npcId: string; npcKey: NPCKey; model: Model }) => {
+			const team = this.npcService.getNPCMeta(data.npcKey)?.team ?? "Monsters";
+			this.register(data.model as SSEntity, { kind: "npc", npcId: data.npcId }, team);
+		});
+
+		this.eventService.on("npcDespawned", (data: { npcId: string; model: Model }) => {
+			this.unregister(data.model);
+		});
+	}
+}
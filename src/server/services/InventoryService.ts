@@ -0,0 +1,266 @@
+/**
+ * @file        src/server/services/InventoryService.ts
+ * @module      InventoryService
+ * @layer       Server
+ * @description Service for slot-based player inventories with stack limits and slot capacity.
+ */
+
+import {
+	findEmptySlot,
+	getItemMaxStack,
+	getStackInSlot,
+	InventoryDTO,
+	InventoryStack,
+} from "shared/definitions/ProfileDefinitions/Inventory";
+import { ItemKey } from "shared/definitions/Items";
+import { ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
+import { ServerHandle } from "server/network";
+import { ConfigService } from "./ConfigService";
+import { EventService } from "./EventService";
+import { PlayerDataService } from "./PlayerDataService";
+
+export class InventoryService {
+	private static instance: InventoryService;
+	private playerDataService = PlayerDataService.getInstance();
+	private eventService = EventService.getInstance();
+	private configService = ConfigService.getInstance();
+
+	private constructor() {
+		this.setupProfileEvents();
+		this.setupNetworkHandlers();
+	}
+
+	public static getInstance(): InventoryService {
+		if (!InventoryService.instance) {
+			InventoryService.instance = new InventoryService();
+		}
+		return InventoryService.instance;
+	}
+
+	/**
+	 * Gets a player's inventory
+	 */
+	public getInventory(player: Player): InventoryDTO | undefined {
+		return this.playerDataService.getProfileKey(player, "Inventory");
+	}
+
+	/**
+	 * Gets the total quantity of an item across all stacks
+	 */
+	public getItemCount(player: Player, itemId: ItemKey): number {
+		const inventory = this.getInventory(player);
+		if (!inventory) return 0;
+
+		let count = 0;
+		for (const stack of inventory.Stacks) {
+			if (stack.ItemId === itemId) count += stack.Quantity;
+		}
+		return count;
+	}
+
+	/**
+	 * Checks if the item fits, topping up existing stacks before using empty slots
+	 */
+	public canAddItem(player: Player, itemId: ItemKey, quantity: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory || quantity <= 0) return false;
+
+		return this.addToInventory(this.copyInventory(inventory), itemId, quantity);
+	}
+
+	/**
+	 * Adds items, filling existing stacks first; adds nothing if they don't all fit
+	 */
+	public addItem(player: Player, itemId: ItemKey, quantity: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory || quantity <= 0) return false;
+
+		const updated = this.copyInventory(inventory);
+		if (!this.addToInventory(updated, itemId, quantity)) {
+			warn(`InventoryService: Not enough space for ${quantity}x ${itemId} in ${player.Name}'s inventory`);
+			return false;
+		}
+
+		this.commit(player, updated);
+		this.eventService.fire("itemAdded", { player, itemId, quantity });
+		return true;
+	}
+
+	/**
+	 * Removes items, emptying the smallest stacks first; removes nothing if the player has too few
+	 */
+	public removeItem(player: Player, itemId: ItemKey, quantity: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory || quantity <= 0 || this.getItemCount(player, itemId) < quantity) return false;
+
+		const updated = this.copyInventory(inventory);
+		const stacks = updated.Stacks.filter((stack) => stack.ItemId === itemId);
+		stacks.sort((a, b) => a.Quantity < b.Quantity);
+
+		let remaining = quantity;
+		for (const stack of stacks) {
+			const taken = math.min(stack.Quantity, remaining);
+			stack.Quantity -= taken;
+			remaining -= taken;
+			if (remaining === 0) break;
+		}
+		updated.Stacks = updated.Stacks.filter((stack) => stack.Quantity > 0);
+
+		this.commit(player, updated);
+		this.eventService.fire("itemRemoved", { player, itemId, quantity });
+		return true;
+	}
+
+	/**
+	 * Moves a stack to another slot, merging with the same item or swapping with a different one
+	 */
+	public moveStack(player: Player, fromSlot: number, toSlot: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory || fromSlot === toSlot || !this.isValidSlot(inventory, toSlot)) return false;
+
+		const updated = this.copyInventory(inventory);
+		const source = getStackInSlot(updated, fromSlot);
+		if (!source) return false;
+
+		const target = getStackInSlot(updated, toSlot);
+		if (target && target.ItemId === source.ItemId) {
+			return this.mergeStacks(player, fromSlot, toSlot);
+		}
+
+		if (target) {
+			target.Slot = fromSlot;
+		}
+		source.Slot = toSlot;
+
+		this.commit(player, updated);
+		return true;
+	}
+
+	/**
+	 * Splits part of a stack into an empty slot (the first free one when toSlot is omitted)
+	 */
+	public splitStack(player: Player, slot: number, quantity: number, toSlot?: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory) return false;
+
+		const updated = this.copyInventory(inventory);
+		const source = getStackInSlot(updated, slot);
+		if (!source || quantity <= 0 || quantity >= source.Quantity) return false;
+
+		const targetSlot = toSlot ?? findEmptySlot(updated);
+		if (targetSlot === undefined || !this.isValidSlot(updated, targetSlot) || getStackInSlot(updated, targetSlot)) {
+			return false;
+		}
+
+		source.Quantity -= quantity;
+		updated.Stacks.push({ Slot: targetSlot, ItemId: source.ItemId, Quantity: quantity });
+
+		this.commit(player, updated);
+		return true;
+	}
+
+	/**
+	 * Moves as much of one stack into another stack of the same item as its max stack allows
+	 */
+	public mergeStacks(player: Player, fromSlot: number, toSlot: number): boolean {
+		const inventory = this.getInventory(player);
+		if (!inventory || fromSlot === toSlot) return false;
+
+		const updated = this.copyInventory(inventory);
+		const source = getStackInSlot(updated, fromSlot);
+		const target = getStackInSlot(updated, toSlot);
+		if (!source || !target || source.ItemId !== target.ItemId) return false;
+
+		const moved = math.min(source.Quantity, getItemMaxStack(target.ItemId) - target.Quantity);
+		if (moved <= 0) return false;
+
+		target.Quantity += moved;
+		source.Quantity -= moved;
+		updated.Stacks = updated.Stacks.filter((stack) => stack.Quantity > 0);
+
+		this.commit(player, updated);
+		return true;
+	}
+
+	/**
+	 * Applies the configured slot capacity to a player's inventory
+	 */
+	public applyCapacity(player: Player): void {
+		const inventory = this.getInventory(player);
+		const capacity = this.configService.get<number>("gameplay.maxInventorySlots");
+		if (!inventory || capacity === undefined || inventory.Capacity === capacity) return;
+
+		const outOfRange = inventory.Stacks.filter((stack) => stack.Slot >= capacity).size();
+		if (outOfRange > 0) {
+			// Keep the items; they stay in their slots but nothing new is placed past capacity
+			warn(`InventoryService: ${player.Name} has ${outOfRange} stacks beyond the ${capacity} slot capacity`);
+		}
+
+		this.commit(player, { ...this.copyInventory(inventory), Capacity: capacity });
+	}
+
+	/** Places items into an inventory in place; returns false (leaving it partly filled) if they don't fit */
+	private addToInventory(inventory: InventoryDTO, itemId: ItemKey, quantity: number): boolean {
+		const maxStack = getItemMaxStack(itemId);
+		let remaining = quantity;
+
+		for (const stack of inventory.Stacks) {
+			if (remaining === 0) break;
+			if (stack.ItemId !== itemId || stack.Quantity >= maxStack) continue;
+
+			const added = math.min(maxStack - stack.Quantity, remaining);
+			stack.Quantity += added;
+			remaining -= added;
+		}
+
+		while (remaining > 0) {
+			const slot = findEmptySlot(inventory);
+			if (slot === undefined) return false;
+
+			const added = math.min(maxStack, remaining);
+			inventory.Stacks.push({ Slot: slot, ItemId: itemId, Quantity: added });
+			remaining -= added;
+		}
+
+		return true;
+	}
+
+	private isValidSlot(inventory: InventoryDTO, slot: number): boolean {
+		return slot >= 0 && slot < inventory.Capacity && slot === math.floor(slot);
+	}
+
+	private copyInventory(inventory: InventoryDTO): InventoryDTO {
+		return {
+			Capacity: inventory.Capacity,
+			Stacks: inventory.Stacks.map((stack): InventoryStack => ({ ...stack })),
+		};
+	}
+
+	private commit(player: Player, inventory: InventoryDTO): void {
+		this.playerDataService.setProfileKey(player, "Inventory", inventory);
+		this.eventService.fire("inventoryChanged", { player, inventory });
+	}
+
+	private setupProfileEvents(): void {
+		this.eventService.on("profileLoaded", (data: { player: Player; profile: ProfileDataMap }) => {
+			this.applyCapacity(data.player);
+		});
+	}
+
+	private setupNetworkHandlers(): void {
+		ServerHandle.MoveInventoryStack((player, fromSlot, toSlot) => {
+			if (!this.isNonNegativeInteger(fromSlot) || !this.isNonNegativeInteger(toSlot)) return false;
+			return this.moveStack(player, fromSlot, toSlot);
+		});
+
+		ServerHandle.SplitInventoryStack((player, slot, quantity) => {
+			if (!this.isNonNegativeInteger(slot) || !this.isNonNegativeInteger(quantity)) return false;
+			return this.splitStack(player, slot, quantity);
+		});
+	}
+
+	/** Client arguments are untrusted; slots and quantities must be non-negative integers */
+	private isNonNegativeInteger(value: unknown): value is number {
+		return typeIs(value, "number") && value >= 0 && value === math.floor(value);
+	}
+}
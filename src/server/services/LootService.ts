@@ -9,14 +9,16 @@ import { Workspace } from "@rbxts/services";
 import { 
 	LOOT_TABLE_KEYS, 
 	LootTableKey, 
+	LootDropKey,
 	LootEntry, 
 	LootTableMeta, 
 	LootTableMetaMap 
 } from "shared/definitions/Loot";
+import { InstancePool, InstancePoolMetrics } from "shared/helpers";
 
 interface LootDrop {
 	readonly id: string;
-	readonly itemId: string;
+	readonly itemId: LootDropKey;
 	readonly quantity: number;
 	readonly position: Vector3;
 	readonly timestamp: number;
@@ -27,11 +29,21 @@ export class LootService {
 	private static instance: LootService;
 	private activeLootDrops = new Map<string, LootDrop>();
 	private lootAnimations = new Map<string, RBXScriptConnection>();
+	private lootModels = new Map<string, Part>();
+	private lootPool = new InstancePool<Part>({
+		create: () => this.buildLootPart(),
+		reset: (part) => {
+			part.Name = "Loot";
+		},
+		maxSize: 32,
+	});
 	private nextLootId = 1;
 	private readonly LOOT_EXPIRE_TIME = 60; // seconds
+	private readonly LOOT_POOL_PREWARM = 8; // enough parts for a world boss kill
 
 	private constructor() {
 		this.setupLootFolder();
+		this.lootPool.prewarm(this.LOOT_POOL_PREWARM);
 		this.startCleanupLoop();
 	}
 
@@ -68,7 +80,7 @@ export class LootService {
 	/**
 	 * Generates loot without dropping it (for inventory rewards, etc.)
 	 */
-	public generateLoot(tableKey: LootTableKey, multiplier: number = 1): Array<{ itemId: string; quantity: number }> {
+	public generateLoot(tableKey: LootTableKey, multiplier: number = 1): Array<{ itemId: LootDropKey; quantity: number }> {
 		const lootTable = this.getLootTable(tableKey);
 		if (!lootTable) {
 			warn(`LootService: Unknown loot table: ${tableKey}`);
@@ -119,6 +131,13 @@ export class LootService {
 		return nearbyLoot;
 	}
 
+	/**
+	 * Gets hit/miss metrics of the pooled loot parts
+	 */
+	public getPoolMetrics(): InstancePoolMetrics {
+		return this.lootPool.getMetrics();
+	}
+
 	/**
 	 * Gets available loot table keys
 	 */
@@ -133,8 +152,8 @@ export class LootService {
 		return LootTableMetaMap[tableKey];
 	}
 
-	private generateLootFromTable(lootTable: LootTableMeta, multiplier: number): Array<{ drop: string; quantity: number }> {
-		const results: Array<{ drop: string; quantity: number }> = [];
+	private generateLootFromTable(lootTable: LootTableMeta, multiplier: number): Array<{ drop: LootDropKey; quantity: number }> {
+		const results: Array<{ drop: LootDropKey; quantity: number }> = [];
 		
 		// Calculate total weight
 		const totalWeight = lootTable.entries.reduce((sum: number, entry: LootEntry) => sum + entry.weight, 0);
@@ -190,7 +209,7 @@ export class LootService {
 		return math.floor(baseQuantity * multiplier);
 	}
 
-	private createLootDrop(itemId: string, quantity: number, position: Vector3): LootDrop | undefined {
+	private createLootDrop(itemId: LootDropKey, quantity: number, position: Vector3): LootDrop | undefined {
 		const id = this.generateLootId();
 		const now = tick();
 		
@@ -210,25 +229,14 @@ export class LootService {
 	}
 
 	private createLootModel(loot: LootDrop): void {
-		// Create a simple loot model in the world
+		// Place a pooled loot model in the world
 		const lootFolder = Workspace.FindFirstChild("LootDrops") as Folder;
 		
-		const part = new Instance("Part");
+		const part = this.lootPool.acquire();
 		part.Name = `Loot_${loot.id}`;
-		part.Size = new Vector3(1, 1, 1);
 		part.Position = loot.position;
-		part.Anchored = true;
-		part.CanCollide = false;
-		part.BrickColor = BrickColor.Green();
-		part.Shape = Enum.PartType.Ball;
-		part.Material = Enum.Material.Neon;
-		
-		// Add a click detector for collection
-		const clickDetector = new Instance("ClickDetector");
-		clickDetector.MaxActivationDistance = 10;
-		clickDetector.Parent = part;
-		
 		part.Parent = lootFolder;
+		this.lootModels.set(loot.id, part);
 		
 		// Add floating animation
 		const startPosition = part.Position;
@@ -242,12 +250,30 @@ export class LootService {
 		this.lootAnimations.set(loot.id, connection);
 	}
 
+	private buildLootPart(): Part {
+		const part = new Instance("Part");
+		part.Name = "Loot";
+		part.Size = new Vector3(1, 1, 1);
+		part.Anchored = true;
+		part.CanCollide = false;
+		part.BrickColor = BrickColor.Green();
+		part.Shape = Enum.PartType.Ball;
+		part.Material = Enum.Material.Neon;
+		
+		// Add a click detector for collection
+		const clickDetector = new Instance("ClickDetector");
+		clickDetector.MaxActivationDistance = 10;
+		clickDetector.Parent = part;
+		
+		return part;
+	}
+
 	private removeLootModel(lootId: string): void {
-		const lootFolder = Workspace.FindFirstChild("LootDrops") as Folder;
-		const lootModel = lootFolder.FindFirstChild(`Loot_${lootId}`);
+		const lootModel = this.lootModels.get(lootId);
 		
 		if (lootModel) {
-			lootModel.Destroy();
+			this.lootModels.delete(lootId);
+			this.lootPool.release(lootModel);
 		}
 		
 		// Clean up animation connection
@@ -5,7 +5,7 @@
  * @description Service for managing in-game messages, notifications, and announcements.
  */
 
-import { Players, ReplicatedStorage } from "@rbxts/services";
+import { Players } from "@rbxts/services";
 import { 
 	SEVERITY_KEYS, 
 	SeverityKey, 
@@ -14,6 +14,7 @@ import {
 	MessageMetaRecord 
 } from "shared/definitions/Message";
 import { generateUniqueId } from "shared/helpers";
+import { ServerBroadcast, ServerSend } from "server/network";
 
 interface QueuedMessage extends MessageShape {
 	readonly recipientId?: number; // undefined = broadcast to all
@@ -28,7 +29,6 @@ export class MessageService {
 	private readonly MESSAGE_EXPIRE_TIME = 300; // 5 minutes
 
 	private constructor() {
-		this.setupMessageFolder();
 		this.startCleanupLoop();
 	}
 
@@ -193,6 +193,21 @@ export class MessageService {
 		return this.sendMessageToPlayer(player, content, title, severity);
 	}
 
+	/**
+	 * Sends a predefined message (e.g. from MessageLibrary) to a specific player
+	 */
+	public sendLibraryMessage(player: Player, message: MessageShape): string {
+		return this.sendMessageToPlayer(player, message.content, message.title, message.severity);
+	}
+
+	/**
+	 * Sends a message to a player and then kicks them with the same text
+	 */
+	public kickPlayer(player: Player, message: MessageShape): void {
+		this.sendLibraryMessage(player, message);
+		player.Kick(`${message.title}: ${message.content}`);
+	}
+
 	/**
 	 * Cleans up messages when a player leaves
 	 */
@@ -247,40 +262,32 @@ export class MessageService {
 	}
 
 	private deliverMessage(queuedMessage: QueuedMessage): void {
-		// This is where you would send the message to the client(s)
-		// For now, we'll just print to console and use RemoteEvents
-		
+		const message = this.toMessageShape(queuedMessage);
+
 		if (queuedMessage.recipientId) {
 			// Send to specific player
 			const player = Players.GetPlayerByUserId(queuedMessage.recipientId);
 			if (player) {
 				print(`[${queuedMessage.severity.upper()}] To ${player.Name}: ${queuedMessage.title} - ${queuedMessage.content}`);
-				// In a real implementation, you'd fire a RemoteEvent here
-				// this.messageRemote.FireClient(player, queuedMessage);
+				ServerSend.MessageReceived(player, message);
 			}
 		} else {
 			// Broadcast to all players
 			print(`[${queuedMessage.severity.upper()}] BROADCAST: ${queuedMessage.title} - ${queuedMessage.content}`);
-			// In a real implementation, you'd fire a RemoteEvent to all clients
-			// this.messageRemote.FireAllClients(queuedMessage);
+			ServerBroadcast.MessageReceived(message);
 		}
 	}
 
-	private setupMessageFolder(): void {
-		// Create RemoteEvents for client communication
-		let remoteFolder = ReplicatedStorage.FindFirstChild("Remotes") as Folder;
-		if (!remoteFolder) {
-			remoteFolder = new Instance("Folder");
-			remoteFolder.Name = "Remotes";
-			remoteFolder.Parent = ReplicatedStorage;
-		}
-
-		// Create message-specific remotes
-		if (!remoteFolder.FindFirstChild("MessageReceived")) {
-			const messageRemote = new Instance("RemoteEvent");
-			messageRemote.Name = "MessageReceived";
-			messageRemote.Parent = remoteFolder;
-		}
+	private toMessageShape(queuedMessage: QueuedMessage): MessageShape {
+		// Strip server-only queue fields before sending to clients
+		return {
+			id: queuedMessage.id,
+			timestamp: queuedMessage.timestamp,
+			title: queuedMessage.title,
+			content: queuedMessage.content,
+			severity: queuedMessage.severity,
+			textColor: queuedMessage.textColor,
+		};
 	}
 
 	private startCleanupLoop(): void {
@@ -0,0 +1,449 @@
+/**
+ * @file        src/server/services/NPCBehaviorService.ts
+ * @module      NPCBehaviorService
+ * @layer       Server
+ * @description Drives spawned NPCs through idle, wander, chase, attack, flee and return-home states
+ *              tuned by their NPCMeta.aiProfile. One throttled Heartbeat loop updates every NPC.
+ */
+
+import { RunService, Workspace } from "@rbxts/services";
+import { CodeSettings } from "shared/constants/CodeSettings";
+import { AnimationKey, GetTrack, loadAnimation } from "shared/definitions/Animation";
+import { NPCAIState, NPCAITuning, NPCAITuningMap, NPCKey, NPCMeta } from "shared/definitions/NPC";
+import { AbilitiesMeta, AbilityKey, AbilityMeta } from "shared/definitions/ProfileDefinitions/Ability";
+import { getAbilityRankStats, MIN_ABILITY_RANK } from "shared/definitions/ProfileDefinitions/AbilityRanks";
+import { SSEntity } from "shared/types/SSEntity";
+import { AbilityService } from "./AbilityService";
+import { CombatService } from "./CombatService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+import { NPCService } from "./NPCService";
+import { PhysicsBehaviorService } from "./PhysicsBehaviorService";
+import { StatusEffectService } from "./StatusEffectService";
+
+/** Per-NPC AI state; times are Workspace.GetServerTimeNow() */
+interface NPCBrain {
+	readonly npcId: string;
+	readonly model: SSEntity;
+	readonly meta: NPCMeta;
+	readonly tuning: NPCAITuning;
+	readonly home: Vector3;
+	readonly abilityCooldowns: Map<AbilityKey, number>;
+	state: NPCAIState;
+	stateSince: number;
+	target?: SSEntity;
+	wanderGoal?: Vector3;
+	nextAttackAt: number;
+	nextTauntAt: number;
+	abilityIndex: number;
+	debugLabel?: TextLabel;
+}
+
+export class NPCBehaviorService {
+	private static instance: NPCBehaviorService;
+	private brains = new Map<string, NPCBrain>();
+	private abilityService = AbilityService.getInstance();
+	private combatService = CombatService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+	private npcService = NPCService.getInstance();
+	private physicsBehaviorService = PhysicsBehaviorService.getInstance();
+	private statusEffectService = StatusEffectService.getInstance();
+	/** Seconds between AI updates; movement is handed to Humanoid:MoveTo in between */
+	private readonly UPDATE_INTERVAL = 0.2;
+	/** Studs from a goal that count as arrived */
+	private readonly ARRIVE_DISTANCE = 4;
+	/** Seconds a wander may take before the NPC gives up on its goal */
+	private readonly WANDER_TIMEOUT = 8;
+	/** Targets farther than aggroRadius times this are dropped */
+	private readonly DISENGAGE_FACTOR = 1.5;
+	private readonly BASE_WALK_SPEED = 16;
+	private readonly MELEE_ANIMATION: AnimationKey = "Punch_01";
+	private readonly TAUNT_ANIMATION: AnimationKey = "Taunt";
+
+	private constructor() {
+		this.setupNPCEvents();
+		this.startUpdateLoop();
+	}
+
+	public static getInstance(): NPCBehaviorService {
+		if (!NPCBehaviorService.instance) {
+			NPCBehaviorService.instance = new NPCBehaviorService();
+		}
+		return NPCBehaviorService.instance;
+	}
+
+	/**
+	 * Gets an NPC's current AI state
+	 */
+	public getState(npcId: string): NPCAIState | undefined {
+		return this.brains.get(npcId)?.state;
+	}
+
+	/**
+	 * Gets the entity an NPC is currently engaging
+	 */
+	public getTarget(npcId: string): SSEntity | undefined {
+		return this.brains.get(npcId)?.target;
+	}
+
+	/**
+	 * Forces an NPC to engage a target, e.g. when it is hit from outside its aggro radius
+	 */
+	public setTarget(npcId: string, target: SSEntity): boolean {
+		const brain = this.brains.get(npcId);
+		if (!brain || !this.entityService.isAlive(target) || !this.entityService.isHostile(brain.model, target)) {
+			return false;
+		}
+
+		brain.target = target;
+		this.setState(brain, "chase", Workspace.GetServerTimeNow());
+		return true;
+	}
+
+	private setupNPCEvents(): void {
+		this.eventService.on("npcSpawned", (data: { npcId: string; npcKey: NPCKey; model: Model }) => {
+			this.addBrain(data.npcId, data.npcKey, data.model as SSEntity);
+		});
+
+		this.eventService.on("npcDespawned", (data: { npcId: string; model: Model }) => {
+			this.removeBrain(data.npcId);
+		});
+	}
+
+	private addBrain(npcId: string, npcKey: NPCKey, model: SSEntity): void {
+		const meta = this.npcService.getNPCMeta(npcKey);
+		if (!meta) return;
+
+		const now = Workspace.GetServerTimeNow();
+		const brain: NPCBrain = {
+			npcId,
+			model,
+			meta,
+			tuning: NPCAITuningMap[meta.aiProfile ?? "melee"],
+			home: model.GetPivot().Position,
+			abilityCooldowns: new Map(),
+			state: "idle",
+			stateSince: now,
+			nextAttackAt: now,
+			nextTauntAt: now,
+			abilityIndex: 0,
+		};
+
+		const humanoid = model.FindFirstChildOfClass("Humanoid");
+		if (humanoid) {
+			humanoid.WalkSpeed = this.BASE_WALK_SPEED * meta.baseStats.speed;
+		}
+
+		if (CodeSettings.DEBUG_NPC) {
+			brain.debugLabel = this.createDebugLabel(model);
+		}
+
+		this.brains.set(npcId, brain);
+	}
+
+	private removeBrain(npcId: string): void {
+		const brain = this.brains.get(npcId);
+		if (!brain) return;
+
+		brain.debugLabel?.FindFirstAncestorOfClass("BillboardGui")?.Destroy();
+		this.brains.delete(npcId);
+	}
+
+	private startUpdateLoop(): void {
+		let elapsed = 0;
+		RunService.Heartbeat.Connect((dt) => {
+			elapsed += dt;
+			if (elapsed < this.UPDATE_INTERVAL) return;
+			elapsed = 0;
+
+			const now = Workspace.GetServerTimeNow();
+			const brains: NPCBrain[] = [];
+			for (const [, brain] of this.brains) brains.push(brain);
+
+			for (const brain of brains) {
+				const [success, err] = pcall(() => this.update(brain, now));
+				if (!success) {
+					warn(`NPCBehaviorService: Update failed for ${brain.npcId}: ${err}`);
+				}
+			}
+		});
+	}
+
+	private update(brain: NPCBrain, now: number): void {
+		if (!this.entityService.isAlive(brain.model)) {
+			this.removeBrain(brain.npcId);
+			return;
+		}
+
+		if (this.statusEffectService.isActionLocked(brain.model)) {
+			this.moveTo(brain, brain.model.GetPivot().Position);
+			this.updateDebug(brain);
+			return;
+		}
+
+		switch (brain.state) {
+			case "idle":
+				this.updateIdle(brain, now);
+				break;
+			case "wander":
+				this.updateWander(brain, now);
+				break;
+			case "chase":
+				this.updateChase(brain, now);
+				break;
+			case "attack":
+				this.updateAttack(brain, now);
+				break;
+			case "flee":
+				this.updateFlee(brain, now);
+				break;
+			case "returnHome":
+				this.updateReturnHome(brain, now);
+				break;
+		}
+
+		this.updateDebug(brain);
+	}
+
+	private updateIdle(brain: NPCBrain, now: number): void {
+		if (this.acquireTarget(brain, now)) return;
+
+		if (now - brain.stateSince >= brain.tuning.idleTime) {
+			const angle = math.random() * math.pi * 2;
+			const distance = math.random() * brain.tuning.wanderRadius;
+			brain.wanderGoal = brain.home.add(new Vector3(math.cos(angle) * distance, 0, math.sin(angle) * distance));
+			this.setState(brain, "wander", now);
+			this.moveTo(brain, brain.wanderGoal);
+		}
+	}
+
+	private updateWander(brain: NPCBrain, now: number): void {
+		if (this.acquireTarget(brain, now)) return;
+
+		const goal = brain.wanderGoal ?? brain.home;
+		if (this.distanceTo(brain, goal) <= this.ARRIVE_DISTANCE || now - brain.stateSince >= this.WANDER_TIMEOUT) {
+			brain.wanderGoal = undefined;
+			this.setState(brain, "idle", now);
+			return;
+		}
+		this.moveTo(brain, goal);
+	}
+
+	private updateChase(brain: NPCBrain, now: number): void {
+		const target = this.validateTarget(brain, now);
+		if (!target) return;
+		if (this.shouldFlee(brain)) {
+			this.setState(brain, "flee", now);
+			return;
+		}
+
+		if (this.distanceTo(brain, target.GetPivot().Position) <= brain.tuning.attackRange) {
+			this.setState(brain, "attack", now);
+			this.updateAttack(brain, now);
+			return;
+		}
+
+		this.tryTaunt(brain, target, now);
+		this.moveTo(brain, target.GetPivot().Position);
+	}
+
+	private updateAttack(brain: NPCBrain, now: number): void {
+		const target = this.validateTarget(brain, now);
+		if (!target) return;
+		if (this.shouldFlee(brain)) {
+			this.setState(brain, "flee", now);
+			return;
+		}
+
+		const targetPosition = target.GetPivot().Position;
+		const distance = this.distanceTo(brain, targetPosition);
+		if (distance > brain.tuning.attackRange) {
+			this.setState(brain, "chase", now);
+			return;
+		}
+
+		// Ranged profiles back off to keep their distance; everyone else holds position
+		const position = brain.model.GetPivot().Position;
+		if (distance < brain.tuning.keepDistance && distance > 0) {
+			const away = position.sub(targetPosition).Unit;
+			this.moveTo(brain, position.add(away.mul(brain.tuning.keepDistance - distance)));
+		} else {
+			this.moveTo(brain, position);
+		}
+
+		this.tryTaunt(brain, target, now);
+		if (now >= brain.nextAttackAt) {
+			brain.nextAttackAt = now + brain.tuning.attackInterval;
+			this.attack(brain, target, now, distance);
+		}
+	}
+
+	private updateFlee(brain: NPCBrain, now: number): void {
+		const target = brain.target;
+		if (
+			!target ||
+			!this.entityService.isAlive(target) ||
+			this.distanceTo(brain, target.GetPivot().Position) > brain.tuning.aggroRadius * this.DISENGAGE_FACTOR
+		) {
+			brain.target = undefined;
+			this.setState(brain, "returnHome", now);
+			return;
+		}
+
+		const position = brain.model.GetPivot().Position;
+		const away = position.sub(target.GetPivot().Position);
+		const direction = away.Magnitude > 0 ? away.Unit : brain.home.sub(position).Unit;
+		this.moveTo(brain, position.add(direction.mul(brain.tuning.aggroRadius)));
+	}
+
+	private updateReturnHome(brain: NPCBrain, now: number): void {
+		if (this.distanceTo(brain, brain.home) > this.ARRIVE_DISTANCE) {
+			this.moveTo(brain, brain.home);
+			return;
+		}
+
+		// Leashed NPCs recover fully so they cannot be whittled down by pulling them back and forth
+		const npc = this.npcService.getSpawnedNPC(brain.npcId);
+		if (npc) {
+			this.npcService.healNPC(brain.npcId, npc.maxHealth);
+		}
+		this.setState(brain, "idle", now);
+	}
+
+	/** Picks the nearest hostile entity within aggro radius that is still inside the leash */
+	private acquireTarget(brain: NPCBrain, now: number): boolean {
+		const candidates = this.entityService
+			.getEntitiesInRadius(brain.model.GetPivot(), brain.tuning.aggroRadius, brain.model)
+			.filter((info) => info.rig.GetPivot().Position.sub(brain.home).Magnitude <= brain.tuning.leashRadius);
+		if (candidates.size() === 0) return false;
+
+		candidates.sort((a, b) => a.distance < b.distance);
+		brain.target = candidates[0].rig;
+		this.setState(brain, "chase", now);
+		return true;
+	}
+
+	/** Drops targets that died, ran out of reach or pulled the NPC beyond its leash */
+	private validateTarget(brain: NPCBrain, now: number): SSEntity | undefined {
+		const target = brain.target;
+		if (
+			target &&
+			this.entityService.isAlive(target) &&
+			this.distanceTo(brain, brain.home) <= brain.tuning.leashRadius &&
+			this.distanceTo(brain, target.GetPivot().Position) <= brain.tuning.aggroRadius * this.DISENGAGE_FACTOR
+		) {
+			return target;
+		}
+
+		brain.target = undefined;
+		this.setState(brain, "returnHome", now);
+		return undefined;
+	}
+
+	private shouldFlee(brain: NPCBrain): boolean {
+		if (brain.tuning.fleeHealthFraction <= 0) return false;
+
+		const npc = this.npcService.getSpawnedNPC(brain.npcId);
+		return npc !== undefined && npc.health / npc.maxHealth < brain.tuning.fleeHealthFraction;
+	}
+
+	private attack(brain: NPCBrain, target: SSEntity, now: number, distance: number): void {
+		if (brain.tuning.attackMode === "abilities" && this.castNextAbility(brain, target, now)) {
+			return;
+		}
+
+		// Melee profiles, and ability users with nothing ready, swing when close enough
+		const meleeRange =
+			brain.tuning.attackMode === "melee" ? brain.tuning.attackRange : NPCAITuningMap.melee.attackRange;
+		if (distance <= meleeRange) {
+			this.playAnimation(brain.model, this.MELEE_ANIMATION);
+			this.combatService.applyDamage({
+				source: brain.model,
+				target,
+				baseAmount: brain.meta.baseStats.attack,
+				damageType: "physical",
+			});
+		}
+	}
+
+	/** Casts the next ready ability in NPCMeta.abilities order */
+	private castNextAbility(brain: NPCBrain, target: SSEntity, now: number): boolean {
+		const abilities = brain.meta.abilities.filter(
+			(key) => !brain.tuning.projectileAbilitiesOnly || (AbilitiesMeta[key] as AbilityMeta).projectile !== undefined,
+		);
+
+		for (let i = 0; i < abilities.size(); i++) {
+			const key = abilities[(brain.abilityIndex + i) % abilities.size()];
+			if ((brain.abilityCooldowns.get(key) ?? 0) > now) continue;
+
+			if (this.abilityService.castForEntity(brain.model, key, target)) {
+				brain.abilityCooldowns.set(key, now + getAbilityRankStats(key, MIN_ABILITY_RANK).cooldown);
+				brain.abilityIndex = (brain.abilityIndex + i + 1) % abilities.size();
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/** Tanks periodically taunt their target, dragging it into melee range */
+	private tryTaunt(brain: NPCBrain, target: SSEntity, now: number): void {
+		if (brain.tuning.tauntInterval === undefined || now < brain.nextTauntAt) return;
+
+		brain.nextTauntAt = now + brain.tuning.tauntInterval;
+		this.playAnimation(brain.model, this.TAUNT_ANIMATION);
+		this.physicsBehaviorService.pull(target, brain.model.GetPivot().Position);
+		this.eventService.fire("npcTaunted", { npcId: brain.npcId, model: brain.model, target });
+	}
+
+	private setState(brain: NPCBrain, state: NPCAIState, now: number): void {
+		if (brain.state === state) return;
+
+		if (CodeSettings.DEBUG_NPC) {
+			print(`NPCBehaviorService: ${brain.npcId} ${brain.state} -> ${state}`);
+		}
+		brain.state = state;
+		brain.stateSince = now;
+	}
+
+	private moveTo(brain: NPCBrain, position: Vector3): void {
+		brain.model.FindFirstChildOfClass("Humanoid")?.MoveTo(position);
+	}
+
+	private distanceTo(brain: NPCBrain, position: Vector3): number {
+		return brain.model.GetPivot().Position.sub(position).Magnitude;
+	}
+
+	private playAnimation(model: SSEntity, key: AnimationKey): void {
+		const track = GetTrack(model, key) ?? loadAnimation(model, key);
+		track?.Play();
+	}
+
+	private createDebugLabel(model: SSEntity): TextLabel {
+		const billboard = new Instance("BillboardGui");
+		billboard.Name = "NPCDebug";
+		billboard.Size = UDim2.fromOffset(160, 40);
+		billboard.StudsOffset = new Vector3(0, 4, 0);
+		billboard.AlwaysOnTop = true;
+
+		const label = new Instance("TextLabel");
+		label.Size = UDim2.fromScale(1, 1);
+		label.BackgroundTransparency = 1;
+		label.TextColor3 = new Color3(1, 1, 0);
+		label.TextStrokeTransparency = 0;
+		label.TextScaled = true;
+		label.Parent = billboard;
+
+		billboard.Adornee = model.FindFirstChild("Head") as BasePart | undefined;
+		billboard.Parent = model;
+		return label;
+	}
+
+	private updateDebug(brain: NPCBrain): void {
+		if (!brain.debugLabel) return;
+
+		const npc = this.npcService.getSpawnedNPC(brain.npcId);
+		const health = npc ? `${math.floor(npc.health)}/${npc.maxHealth}` : "?";
+		brain.debugLabel.Text = `${brain.state} → ${brain.target?.Name ?? "none"}\n${health}`;
+	}
+}
@@ -2,12 +2,13 @@
  * @file        src/server/services/NPCService.ts
  * @module      NPCService
  * @layer       Server
- * @description Service for managing NPC spawning, behavior, and lifecycle.
+ * @description Service for managing NPC spawning and lifecycle. Behaviour lives in NPCBehaviorService.
  */
 
-import { ReplicatedStorage, Workspace, RunService } from "@rbxts/services";
+import { ReplicatedStorage, Workspace } from "@rbxts/services";
 import { NPC_KEYS, NPCKey, NPCMeta, NPCMetaMap } from "shared/definitions/NPC";
 import type { LootTableKey } from "shared/definitions/Loot";
+import { EventService } from "./EventService";
 
 interface SpawnedNPC {
 	readonly id: string;
@@ -24,6 +25,7 @@ export class NPCService {
 	private static instance: NPCService;
 	private spawnedNPCs = new Map<string, SpawnedNPC>();
 	private nextNPCId = 1;
+	private eventService = EventService.getInstance();
 
 	private constructor() {
 		this.setupNPCFolder();
@@ -65,7 +67,7 @@ export class NPCService {
 		};
 
 		this.spawnedNPCs.set(id, spawnedNPC);
-		this.setupNPCBehavior(spawnedNPC);
+		this.eventService.fire("npcSpawned", { npcId: id, npcKey, model });
 
 		return spawnedNPC;
 	}
@@ -79,6 +81,7 @@ export class NPCService {
 			return false;
 		}
 
+		this.eventService.fire("npcDespawned", { npcId, model: npc.model });
 		npc.model.Destroy();
 		this.spawnedNPCs.delete(npcId);
 		return true;
@@ -116,6 +119,19 @@ export class NPCService {
 		return true;
 	}
 
+	/**
+	 * Heals a living NPC up to its max health
+	 */
+	public healNPC(npcId: string, amount: number): boolean {
+		const npc = this.spawnedNPCs.get(npcId);
+		if (!npc || !npc.isAlive) {
+			return false;
+		}
+
+		npc.health = math.min(npc.maxHealth, npc.health + amount);
+		return true;
+	}
+
 	/**
 	 * Gets NPC metadata by key
 	 */
@@ -158,21 +174,6 @@ export class NPCService {
 		}
 	}
 
-	private setupNPCBehavior(npc: SpawnedNPC): void {
-		// Add basic NPC behavior here
-		// This could include AI movement, attack patterns, etc.
-		
-		// Example: Basic wandering behavior
-		const connection = RunService.Heartbeat.Connect(() => {
-			if (!npc.isAlive) {
-				connection.Disconnect();
-				return;
-			}
-			
-			// Add NPC behavior logic here
-		});
-	}
-
 	private handleNPCDeath(npc: SpawnedNPC): void {
 		npc.isAlive = false;
 		
@@ -0,0 +1,144 @@
+/**
+ * @file        src/server/services/PhysicsBehaviorService.ts
+ * @module      PhysicsBehaviorService
+ * @layer       Server
+ * @description Interprets the Pull/Repel/Chain physicsType of projectiles and beams when they hit
+ *              an entity: impulses toward or away from the source, and chained damage with falloff.
+ */
+
+import { Workspace } from "@rbxts/services";
+import { BeamPhysicsType } from "shared/definitions/Beams";
+import { DamageTypeKey } from "shared/definitions/Combat";
+import { SSEntity } from "shared/types/SSEntity";
+import { CombatService } from "./CombatService";
+import { ConfigService } from "./ConfigService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+
+/** The hit a physics behavior reacts to */
+export interface PhysicsHitContext {
+	readonly source?: SSEntity;
+	readonly target: SSEntity;
+	/** Where the hit came from; Repel pushes away from it, Pull falls back to it without a source */
+	readonly origin: Vector3;
+	/** Damage of the original hit; Chain jumps fall off from it */
+	readonly damage: number;
+	readonly damageType: DamageTypeKey;
+}
+
+export class PhysicsBehaviorService {
+	private static instance: PhysicsBehaviorService;
+	private combatService = CombatService.getInstance();
+	private configService = ConfigService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+
+	private constructor() {}
+
+	public static getInstance(): PhysicsBehaviorService {
+		if (!PhysicsBehaviorService.instance) {
+			PhysicsBehaviorService.instance = new PhysicsBehaviorService();
+		}
+		return PhysicsBehaviorService.instance;
+	}
+
+	/**
+	 * Runs the behavior for a physics type against a hit target
+	 */
+	public apply(physicsType: BeamPhysicsType | undefined, context: PhysicsHitContext): void {
+		if (!this.entityService.isAlive(context.target)) return;
+
+		switch (physicsType) {
+			case "Pull":
+				this.pull(context.target, context.source?.GetPivot().Position ?? context.origin);
+				break;
+			case "Repel":
+				this.repel(context.target, context.origin);
+				break;
+			case "Chain":
+				this.chain(context);
+				break;
+		}
+	}
+
+	/**
+	 * Drags an entity to a point, landing it the configured stop distance short of it
+	 */
+	public pull(target: SSEntity, toward: Vector3): void {
+		const offset = toward.sub(target.GetPivot().Position);
+		const flat = new Vector3(offset.X, 0, offset.Z);
+		const stopDistance = this.configService.get<number>("combat.pullStopDistance") ?? 0;
+		if (flat.Magnitude <= stopDistance) return;
+
+		const duration = this.configService.get<number>("combat.pullDuration") ?? 0.5;
+		this.launch(target, flat.Unit.mul(flat.Magnitude - stopDistance), offset.Y, duration);
+	}
+
+	/**
+	 * Knocks an entity back the configured distance away from a point
+	 */
+	public repel(target: SSEntity, from: Vector3): void {
+		const offset = target.GetPivot().Position.sub(from);
+		const flat = new Vector3(offset.X, 0, offset.Z);
+		if (flat.Magnitude === 0) return;
+
+		const distance = this.configService.get<number>("combat.repelDistance") ?? 0;
+		const duration = this.configService.get<number>("combat.repelDuration") ?? 0.4;
+		this.launch(target, flat.Unit.mul(distance), 0, duration);
+	}
+
+	/**
+	 * Jumps from the hit target to the nearest hostile entities in turn, each jump dealing less damage.
+	 * Returns the entities the chain reached after the first target.
+	 */
+	public chain(context: PhysicsHitContext): SSEntity[] {
+		const count = this.configService.get<number>("combat.chainCount") ?? 0;
+		const radius = this.configService.get<number>("combat.chainRadius") ?? 0;
+		const falloff = this.configService.get<number>("combat.chainFalloff") ?? 1;
+
+		const visited = new Set<Model>([context.target]);
+		const jumps: SSEntity[] = [];
+		let current: SSEntity = context.target;
+		let damage = context.damage;
+
+		for (let i = 0; i < count; i++) {
+			const candidates = this.entityService
+				.getEntitiesInRadius(current.GetPivot(), radius, context.source)
+				.filter((info) => !visited.has(info.rig));
+			if (candidates.size() === 0) break;
+
+			candidates.sort((a, b) => a.distance < b.distance);
+			const nearest = candidates[0].rig;
+			damage *= falloff;
+
+			this.combatService.applyDamage({
+				source: context.source,
+				target: nearest,
+				baseAmount: damage,
+				damageType: context.damageType,
+			});
+
+			visited.add(nearest);
+			jumps.push(nearest);
+			current = nearest;
+		}
+
+		if (jumps.size() > 0) {
+			this.eventService.fire("chainJumped", { source: context.source, from: context.target, targets: jumps });
+		}
+		return jumps;
+	}
+
+	/**
+	 * Throws an entity on an arc that covers the horizontal offset and rise in `duration` seconds.
+	 * The impulse replaces its current velocity, so the distance does not depend on mass or speed.
+	 */
+	private launch(target: SSEntity, horizontal: Vector3, rise: number, duration: number): void {
+		const root = target.HumanoidRootPart;
+		if (!root || root.Anchored || duration <= 0) return;
+
+		const lift = rise / duration + 0.5 * Workspace.Gravity * duration;
+		const velocity = horizontal.div(duration).add(new Vector3(0, lift, 0));
+		root.ApplyImpulse(velocity.sub(root.AssemblyLinearVelocity).mul(root.AssemblyMass));
+	}
+}
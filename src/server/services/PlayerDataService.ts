@@ -5,28 +5,72 @@
  * @description Service for managing player data persistence and profiles.
  */
 
-import { Players, DataStoreService } from "@rbxts/services";
-
-interface PlayerProfile {
-	readonly playerId: number;
-	readonly playerName: string;
-	level: number;
-	experience: number;
-	currency: Record<string, number>;
-	inventory: Array<{ itemId: string; quantity: number }>;
-	settings: Record<string, unknown>;
-	lastLogin: number;
-	totalPlayTime: number;
+import { Players } from "@rbxts/services";
+import { ATTR_KEYS, AttributeKey, AttributesDTO, clampAttr } from "shared/definitions/ProfileDefinitions/Attributes";
+import { CurrencyKey } from "shared/definitions/ProfileDefinitions/Currency";
+import { createProfileData, ProfileDataKey, ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
+import { MessageLibrary } from "shared/definitions/Message";
+import { deepCopy, generateUniqueId } from "shared/helpers";
+import { ServerHandle } from "server/network";
+import {
+	appendProfileSnapshot,
+	createSessionLock,
+	DataStoreProfileStore,
+	diffProfileData,
+	isLockedByOtherSession,
+	isNewerProfileSchema,
+	migrateProfile,
+	PlayerProfile,
+	PROFILE_SCHEMA_VERSION,
+	ProfileFieldDiff,
+	ProfileSnapshot,
+	ProfileSnapshotInfo,
+	ProfileSnapshotReason,
+	ProfileStore,
+	ProfileStoreRequest,
+	RawProfile,
+	readProfileHistory,
+	reconcileProfile,
+	toProfileSnapshotInfo,
+} from "server/data";
+import { ConfigService } from "./ConfigService";
+import { EventService } from "./EventService";
+import { MessageService } from "./MessageService";
+
+/** Outcome of a DataStore request after retries */
+interface DataStoreRequestResult<T> {
+	readonly success: boolean;
+	readonly value?: T;
+	readonly attempts: number;
+	readonly error?: unknown;
 }
 
+/** Outcome of claiming a stored profile's session lock */
+type ProfileAcquireResult =
+	| { readonly status: "acquired"; readonly profile: PlayerProfile }
+	| { readonly status: "locked" }
+	| { readonly status: "newerSchema" };
+
 export class PlayerDataService {
 	private static instance: PlayerDataService;
-	private dataStore = DataStoreService.GetDataStore("PlayerProfiles");
+	private profileStore: ProfileStore = new DataStoreProfileStore("PlayerProfiles");
 	private playerProfiles = new Map<number, PlayerProfile>();
 	private sessionStartTimes = new Map<number, number>();
+	private eventService = EventService.getInstance();
+	private configService = ConfigService.getInstance();
+	private messageService = MessageService.getInstance();
+	private readonly SESSION_LOCK_ATTEMPTS = 5;
+	private readonly SESSION_LOCK_RETRY_DELAY = 5; // seconds
+	private dirtyProfiles = new Set<number>();
+	private activeSaves = new Set<number>();
+	private lastSnapshotTimes = new Map<number, number>();
+	private isShuttingDown = false;
 
 	private constructor() {
 		this.setupPlayerEvents();
+		this.setupNetworkHandlers();
+		this.startAutosaveLoop();
+		this.bindToClose();
 	}
 
 	public static getInstance(): PlayerDataService {
@@ -37,40 +81,61 @@ export class PlayerDataService {
 	}
 
 	/**
-	 * Loads player data when they join
+	 * Loads player data when they join, claiming the profile's session lock
 	 */
 	public async loadPlayerData(player: Player): Promise<PlayerProfile | undefined> {
-		try {
-			const [savedData] = await this.dataStore.GetAsync(`Player_${player.UserId}`);
-			
-			let profile: PlayerProfile;
-			
-			if (savedData) {
-				// Player has existing data
-				profile = savedData as PlayerProfile;
-				profile.lastLogin = tick();
-				print(`PlayerDataService: Loaded existing data for ${player.Name}`);
-			} else {
-				// New player - create default profile
-				profile = this.createDefaultProfile(player);
-				print(`PlayerDataService: Created new profile for ${player.Name}`);
+		for (let attempt = 1; attempt <= this.SESSION_LOCK_ATTEMPTS; attempt++) {
+			const result = this.withRetries("update", () => this.acquireProfile(player));
+			if (!result.success) {
+				warn(`PlayerDataService: Failed to load data for ${player.Name}: ${result.error}`);
+				return undefined;
 			}
 
-			this.playerProfiles.set(player.UserId, profile);
-			this.sessionStartTimes.set(player.UserId, tick());
-			
-			return profile;
-		} catch (error) {
-			warn(`PlayerDataService: Failed to load data for ${player.Name}: ${error}`);
-			return undefined;
+			const acquired = result.value!;
+			if (acquired.status === "newerSchema") {
+				// Loading would reconcile away fields this server doesn't know, and the next save would persist that
+				warn(`PlayerDataService: Profile for ${player.Name} was saved by a newer schema, refusing to load it`);
+				this.messageService.kickPlayer(player, MessageLibrary.ProfileVersionUnsupported);
+				return undefined;
+			}
+
+			if (acquired.status === "acquired") {
+				const profile = acquired.profile;
+				if (!player.IsDescendantOf(Players)) {
+					// Player left while loading - hand the lock straight back
+					this.withRetries("update", () =>
+						this.writeProfile(player, profile, true),
+					);
+					return undefined;
+				}
+
+				this.playerProfiles.set(player.UserId, profile);
+				this.sessionStartTimes.set(player.UserId, tick());
+				this.lastSnapshotTimes.set(player.UserId, os.time());
+
+				this.eventService.fire("profileLoaded", { player, profile: this.getProfileData(player) });
+
+				return profile;
+			}
+
+			if (attempt < this.SESSION_LOCK_ATTEMPTS) {
+				warn(`PlayerDataService: Profile for ${player.Name} is locked by another server, retrying (${attempt}/${this.SESSION_LOCK_ATTEMPTS})`);
+				task.wait(this.SESSION_LOCK_RETRY_DELAY);
+			}
 		}
+
+		warn(`PlayerDataService: Could not acquire session lock for ${player.Name}`);
+		this.messageService.kickPlayer(player, MessageLibrary.SessionLocked);
+		return undefined;
 	}
 
 	/**
-	 * Saves player data to DataStore
+	 * Saves player data to DataStore with retries, optionally releasing the session lock.
+	 * Fires `profileSaved` or `profileSaveFailed` with the outcome.
 	 */
-	public async savePlayerData(player: Player): Promise<boolean> {
-		const profile = this.playerProfiles.get(player.UserId);
+	public async savePlayerData(player: Player, releaseLock: boolean = false): Promise<boolean> {
+		const userId = player.UserId;
+		const profile = this.playerProfiles.get(userId);
 		if (!profile) {
 			warn(`PlayerDataService: No profile found for ${player.Name}`);
 			return false;
@@ -79,14 +144,161 @@ export class PlayerDataService {
 		// Update play time
 		this.updatePlayTime(player);
 
-		try {
-			await this.dataStore.SetAsync(`Player_${player.UserId}`, profile);
+		// One write per profile at a time, so a release can't be overtaken by an older autosave
+		while (this.activeSaves.has(userId)) {
+			task.wait();
+		}
+		this.activeSaves.add(userId);
+		this.dirtyProfiles.delete(userId);
+
+		const result = this.withRetries("update", () =>
+			this.writeProfile(player, profile, releaseLock),
+		);
+		if (result.success && result.value) {
+			this.snapshotIfDue(userId, profile, releaseLock);
+		}
+		this.activeSaves.delete(userId);
+
+		if (result.success && result.value) {
 			print(`PlayerDataService: Saved data for ${player.Name}`);
+			this.eventService.fire("profileSaved", { player, userId, attempts: result.attempts, released: releaseLock });
 			return true;
-		} catch (error) {
-			warn(`PlayerDataService: Failed to save data for ${player.Name}: ${error}`);
+		}
+
+		const reason = result.success ? "lockLost" : "error";
+		if (reason === "lockLost") {
+			warn(`PlayerDataService: Session lock for ${player.Name} is held by another server, save skipped`);
+		} else {
+			warn(`PlayerDataService: Failed to save data for ${player.Name} after ${result.attempts} attempts: ${result.error}`);
+			if (!releaseLock && this.playerProfiles.has(userId)) {
+				// Keep the profile queued for the next autosave
+				this.dirtyProfiles.add(userId);
+			}
+		}
+
+		this.eventService.fire("profileSaveFailed", {
+			player,
+			userId,
+			attempts: result.attempts,
+			reason,
+			error: result.error,
+		});
+		return false;
+	}
+
+	/**
+	 * Lists the stored snapshots of a player's profile, oldest first
+	 */
+	public async listProfileSnapshots(userId: number): Promise<ProfileSnapshotInfo[] | undefined> {
+		const result = this.withRetries("read", () => readProfileHistory(this.profileStore.get(this.getHistoryKey(userId))));
+		if (!result.success) {
+			warn(`PlayerDataService: Failed to read snapshots for ${userId}: ${result.error}`);
+			return undefined;
+		}
+		return result.value!.map(toProfileSnapshotInfo);
+	}
+
+	/**
+	 * Diffs two snapshots by ProfileDataMap field; compares against the stored profile when toId is omitted
+	 */
+	public async diffProfileSnapshots(userId: number, fromId: string, toId?: string): Promise<ProfileFieldDiff[] | undefined> {
+		const result = this.withRetries("read", () => {
+			const history = readProfileHistory(this.profileStore.get(this.getHistoryKey(userId)));
+			const current = toId === undefined ? this.profileStore.get(this.getProfileStoreKey(userId)) : undefined;
+			return { history, current };
+		});
+		if (!result.success) {
+			warn(`PlayerDataService: Failed to read snapshots for ${userId}: ${result.error}`);
+			return undefined;
+		}
+
+		const { history, current } = result.value!;
+		const from = history.find((snapshot) => snapshot.id === fromId);
+		const to = toId === undefined ? current : history.find((snapshot) => snapshot.id === toId)?.profile;
+		if (!from || !typeIs(to, "table")) {
+			warn(`PlayerDataService: Snapshot not found for ${userId} (${fromId} → ${toId ?? "current"})`);
+			return undefined;
+		}
+
+		return diffProfileData(from.profile, to as RawProfile);
+	}
+
+	/**
+	 * Restores a snapshot over the stored profile of an offline player.
+	 * The profile it replaces is kept as a `preRestore` snapshot so the restore can be undone.
+	 */
+	public async restoreProfileSnapshot(userId: number, snapshotId: string): Promise<boolean> {
+		if (this.playerProfiles.has(userId)) {
+			warn(`PlayerDataService: Cannot restore ${userId} while they are online on this server`);
 			return false;
 		}
+
+		const historyResult = this.withRetries("read", () => readProfileHistory(this.profileStore.get(this.getHistoryKey(userId))));
+		const snapshot = historyResult.value?.find((entry) => entry.id === snapshotId);
+		if (!snapshot) {
+			warn(`PlayerDataService: Snapshot ${snapshotId} not found for ${userId}`);
+			return false;
+		}
+
+		let replaced: unknown;
+		const result = this.withRetries("update", () =>
+			this.profileStore.update<RawProfile>(this.getProfileStoreKey(userId), (savedData) => {
+				const savedLock = typeIs(savedData, "table") ? (savedData as Partial<PlayerProfile>).sessionLock : undefined;
+				if (isLockedByOtherSession(savedLock)) {
+					return undefined;
+				}
+
+				replaced = savedData;
+				const restored = deepCopy(snapshot.profile);
+				restored.sessionLock = undefined;
+				return restored;
+			}),
+		);
+
+		if (!result.success || result.value === undefined) {
+			warn(`PlayerDataService: Failed to restore ${snapshotId} for ${userId}: ${result.error ?? "profile is in use on another server"}`);
+			return false;
+		}
+
+		if (typeIs(replaced, "table")) {
+			this.recordSnapshot(userId, replaced as RawProfile, "preRestore");
+		}
+
+		print(`PlayerDataService: Restored snapshot ${snapshotId} for ${userId}`);
+		this.eventService.fire("profileRestored", { userId, snapshotId, timestamp: snapshot.timestamp });
+		return true;
+	}
+
+	/**
+	 * Swaps the storage backend, e.g. for a MemoryProfileStore; only safe before any profile is loaded
+	 */
+	public setProfileStore(store: ProfileStore): void {
+		if (this.playerProfiles.size() > 0) {
+			warn(`PlayerDataService: Switching profile store to ${store.name} with ${this.playerProfiles.size()} profiles loaded`);
+		}
+		this.profileStore = store;
+	}
+
+	/**
+	 * Saves every loaded profile, changed or not; the write is what refreshes the session lock,
+	 * so an idle player's lock would otherwise go stale and be stolen by another server
+	 */
+	public saveLoadedProfiles(): void {
+		for (const [userId] of this.playerProfiles) {
+			const player = Players.GetPlayerByUserId(userId);
+			if (player) {
+				task.spawn(() => this.savePlayerData(player));
+			} else {
+				this.dirtyProfiles.delete(userId);
+			}
+		}
+	}
+
+	/**
+	 * Checks if a player's profile has unsaved changes
+	 */
+	public isProfileDirty(player: Player): boolean {
+		return this.dirtyProfiles.has(player.UserId);
 	}
 
 	/**
@@ -97,42 +309,262 @@ export class PlayerDataService {
 	}
 
 	/**
-	 * Updates a player's currency
+	 * Gets the shared ProfileDataMap buckets of a player's profile
+	 */
+	public getProfileData(player: Player): ProfileDataMap | undefined {
+		const profile = this.playerProfiles.get(player.UserId);
+		if (!profile) return undefined;
+
+		return {
+			Abilities: profile.Abilities,
+			AbilityRanks: profile.AbilityRanks,
+			Attributes: profile.Attributes,
+			Progression: profile.Progression,
+			Settings: profile.Settings,
+			Currency: profile.Currency,
+			Inventory: profile.Inventory,
+		};
+	}
+
+	/**
+	 * Gets a single profile bucket
+	 */
+	public getProfileKey<K extends ProfileDataKey>(player: Player, key: K): ProfileDataMap[K] | undefined {
+		const profile = this.playerProfiles.get(player.UserId);
+		return profile?.[key];
+	}
+
+	/**
+	 * Replaces a single profile bucket and replicates it to the player
 	 */
-	public modifyPlayerCurrency(player: Player, currencyType: string, amount: number): boolean {
+	public setProfileKey<K extends ProfileDataKey>(player: Player, key: K, value: ProfileDataMap[K]): boolean {
 		const profile = this.playerProfiles.get(player.UserId);
 		if (!profile) return false;
 
-		if (!profile.currency[currencyType]) {
-			profile.currency[currencyType] = 0;
+		(profile as ProfileDataMap)[key] = value;
+		this.dirtyProfiles.add(player.UserId);
+		this.eventService.fire("profileChanged", { player, key, value });
+		return true;
+	}
+
+	/**
+	 * Updates a single profile bucket from its current value
+	 */
+	public updateProfileKey<K extends ProfileDataKey>(
+		player: Player,
+		key: K,
+		updater: (current: ProfileDataMap[K]) => ProfileDataMap[K],
+	): boolean {
+		const current = this.getProfileKey(player, key);
+		if (current === undefined) return false;
+
+		return this.setProfileKey(player, key, updater(current));
+	}
+
+	/**
+	 * Updates a player's currency
+	 */
+	public modifyPlayerCurrency(player: Player, currencyType: CurrencyKey, amount: number): boolean {
+		const maxCurrency = this.configService.get<number>("economy.maxCurrency") ?? math.huge;
+
+		return this.updateProfileKey(player, "Currency", (currency) => ({
+			...currency,
+			[currencyType]: math.clamp((currency[currencyType] ?? 0) + amount, 0, maxCurrency),
+		}));
+	}
+
+	/**
+	 * Checks if player has enough currency
+	 */
+	public hasEnoughCurrency(player: Player, currencyType: CurrencyKey, amount: number): boolean {
+		const currency = this.getProfileKey(player, "Currency");
+		if (!currency) return false;
+
+		return (currency[currencyType] ?? 0) >= amount;
+	}
+
+	/**
+	 * Spends (positive amount) or refunds (negative amount) attribute points
+	 */
+	public modifyAttribute(player: Player, key: AttributeKey, amount: number): AttributesDTO | undefined {
+		const attributes = this.getProfileKey(player, "Attributes");
+		if (!attributes) return undefined;
+
+		const newValue = clampAttr(key, attributes[key] + amount);
+		const applied = newValue - attributes[key];
+		if (applied === 0 || applied > attributes.AvailablePoints || attributes.SpentPoints + applied < 0) {
+			return undefined;
 		}
 
-		profile.currency[currencyType] = math.max(0, profile.currency[currencyType] + amount);
+		const updated: AttributesDTO = {
+			...attributes,
+			[key]: newValue,
+			AvailablePoints: attributes.AvailablePoints - applied,
+			SpentPoints: attributes.SpentPoints + applied,
+		};
+		this.setProfileKey(player, "Attributes", updated);
+		return updated;
+	}
+
+	/**
+	 * Runs a DataStore request, waiting for request budget and retrying failures with exponential backoff
+	 */
+	private withRetries<T>(request: ProfileStoreRequest, run: () => T): DataStoreRequestResult<T> {
+		const maxAttempts = math.max(this.configService.get<number>("dataStore.maxRetryAttempts") ?? 1, 1);
+		const baseDelay = this.configService.get<number>("dataStore.retryBaseDelay") ?? 1;
+		const maxDelay = this.configService.get<number>("dataStore.retryMaxDelay") ?? baseDelay;
+		let lastError: unknown;
+
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			this.waitForRequestBudget(request, maxDelay);
+
+			try {
+				return { success: true, value: run(), attempts: attempt };
+			} catch (error) {
+				lastError = error;
+				if (attempt < maxAttempts) {
+					const delay = math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+					warn(`PlayerDataService: DataStore request failed (${attempt}/${maxAttempts}), retrying in ${delay}s: ${error}`);
+					task.wait(delay);
+				}
+			}
+		}
+
+		return { success: false, attempts: maxAttempts, error: lastError };
+	}
+
+	/**
+	 * Yields until the DataStore budget allows another request, or the timeout passes
+	 */
+	private waitForRequestBudget(request: ProfileStoreRequest, timeout: number): void {
+		const deadline = tick() + timeout;
+		while (this.profileStore.getRequestBudget(request) < 1 && tick() < deadline) {
+			task.wait(1);
+		}
+	}
+
+	private getProfileStoreKey(userId: number): string {
+		return `Player_${userId}`;
+	}
+
+	private getHistoryKey(userId: number): string {
+		return `PlayerHistory_${userId}`;
+	}
+
+	/**
+	 * Records a snapshot at the end of a session, or when the last one is older than the snapshot interval
+	 */
+	private snapshotIfDue(userId: number, profile: PlayerProfile, sessionEnd: boolean): void {
+		const interval = this.configService.get<number>("dataStore.snapshotInterval") ?? 3600;
+		const lastSnapshot = this.lastSnapshotTimes.get(userId) ?? 0;
+		if (!sessionEnd && os.time() - lastSnapshot < interval) return;
+
+		this.lastSnapshotTimes.set(userId, os.time());
+		this.recordSnapshot(userId, profile as unknown as RawProfile, sessionEnd ? "sessionEnd" : "autosave");
+	}
+
+	/**
+	 * Appends a copy of a profile to the player's bounded snapshot history
+	 */
+	private recordSnapshot(userId: number, profile: RawProfile, reason: ProfileSnapshotReason): boolean {
+		const maxSnapshots = this.configService.get<number>("dataStore.maxSnapshots") ?? 20;
+		const data = deepCopy(profile);
+		data.sessionLock = undefined;
+
+		const snapshot: ProfileSnapshot = {
+			id: generateUniqueId(),
+			timestamp: os.time(),
+			reason,
+			schemaVersion: typeIs(data.schemaVersion, "number") ? data.schemaVersion : PROFILE_SCHEMA_VERSION,
+			profile: data,
+		};
+
+		const result = this.withRetries("update", () =>
+			this.profileStore.update<ProfileSnapshot[]>(this.getHistoryKey(userId), (stored) =>
+				appendProfileSnapshot(readProfileHistory(stored), snapshot, maxSnapshots),
+			),
+		);
+
+		if (!result.success) {
+			warn(`PlayerDataService: Failed to record ${reason} snapshot for ${userId}: ${result.error}`);
+			return false;
+		}
 		return true;
 	}
 
 	/**
-	 * Checks if player has enough currency
+	 * Reads, migrates and locks the stored profile in a single UpdateAsync.
+	 * Cancels the write, leaving the stored profile and its lock untouched, when another live server
+	 * holds the lock or the profile was saved by a newer schema.
 	 */
-	public hasEnoughCurrency(player: Player, currencyType: string, amount: number): boolean {
-		const profile = this.playerProfiles.get(player.UserId);
-		if (!profile) return false;
+	private acquireProfile(player: Player): ProfileAcquireResult {
+		let refusal: "locked" | "newerSchema" = "locked";
+		const acquired = this.profileStore.update<PlayerProfile>(this.getProfileStoreKey(player.UserId), (savedData) => {
+			let profile: PlayerProfile;
+
+			if (savedData !== undefined) {
+				// Player has existing data - upgrade it to the current schema before use
+				if (!typeIs(savedData, "table")) {
+					throw `Stored profile is not a table (got ${typeOf(savedData)})`;
+				}
+				if (isNewerProfileSchema(savedData as RawProfile)) {
+					refusal = "newerSchema";
+					return undefined;
+				}
+				profile = reconcileProfile(migrateProfile(savedData as RawProfile), player);
+			} else {
+				// New player - create default profile
+				profile = this.createDefaultProfile(player);
+			}
+
+			if (isLockedByOtherSession(profile.sessionLock)) {
+				refusal = "locked";
+				return undefined;
+			}
+			if (profile.sessionLock && profile.sessionLock.jobId !== game.JobId) {
+				warn(`PlayerDataService: Stealing stale session lock for ${player.Name} from ${profile.sessionLock.jobId}`);
+			}
+
+			profile.sessionLock = createSessionLock();
+			profile.lastLogin = tick();
+			return profile;
+		});
+
+		if (!acquired) {
+			return { status: refusal };
+		}
+
+		print(`PlayerDataService: Loaded data for ${player.Name}`);
+		return { status: "acquired", profile: acquired };
+	}
+
+	/**
+	 * Writes the profile only while this server still owns its session lock.
+	 * Refreshes the lock timestamp, or clears it when releasing.
+	 */
+	private writeProfile(player: Player, profile: PlayerProfile, releaseLock: boolean): boolean {
+		const written = this.profileStore.update<PlayerProfile>(this.getProfileStoreKey(player.UserId), (savedData) => {
+			const savedLock = typeIs(savedData, "table") ? (savedData as Partial<PlayerProfile>).sessionLock : undefined;
+			if (isLockedByOtherSession(savedLock)) {
+				return undefined;
+			}
+
+			profile.sessionLock = releaseLock ? undefined : createSessionLock();
+			return profile;
+		});
 
-		return (profile.currency[currencyType] || 0) >= amount;
+		return written !== undefined;
 	}
 
 	private createDefaultProfile(player: Player): PlayerProfile {
+		const data = createProfileData();
+		data.Currency.GOLD = this.configService.get<number>("economy.defaultStartingGold") ?? 0;
+
 		return {
+			...data,
+			schemaVersion: PROFILE_SCHEMA_VERSION,
 			playerId: player.UserId,
 			playerName: player.Name,
-			level: 1,
-			experience: 0,
-			currency: {
-				gold: 100,
-				gems: 10,
-			},
-			inventory: [],
-			settings: {},
 			lastLogin: tick(),
 			totalPlayTime: 0,
 		};
@@ -141,7 +573,7 @@ export class PlayerDataService {
 	private updatePlayTime(player: Player): void {
 		const profile = this.playerProfiles.get(player.UserId);
 		const sessionStart = this.sessionStartTimes.get(player.UserId);
-		
+
 		if (profile && sessionStart) {
 			const sessionTime = tick() - sessionStart;
 			profile.totalPlayTime += sessionTime;
@@ -155,9 +587,53 @@ export class PlayerDataService {
 		});
 
 		Players.PlayerRemoving.Connect((player) => {
-			this.savePlayerData(player);
+			this.savePlayerData(player, true);
 			this.playerProfiles.delete(player.UserId);
 			this.sessionStartTimes.delete(player.UserId);
+			this.dirtyProfiles.delete(player.UserId);
+			this.lastSnapshotTimes.delete(player.UserId);
+		});
+	}
+
+	private startAutosaveLoop(): void {
+		task.spawn(() => {
+			while (!this.isShuttingDown) {
+				task.wait(this.configService.get<number>("dataStore.autosaveInterval") ?? 300);
+				if (!this.isShuttingDown) {
+					this.saveLoadedProfiles();
+				}
+			}
+		});
+	}
+
+	private bindToClose(): void {
+		game.BindToClose(() => {
+			this.isShuttingDown = true;
+
+			// Flush and release every loaded profile, then wait for in-flight saves (including PlayerRemoving)
+			for (const player of Players.GetPlayers()) {
+				if (this.playerProfiles.has(player.UserId)) {
+					task.spawn(() => this.savePlayerData(player, true));
+				}
+			}
+
+			const deadline = tick() + (this.configService.get<number>("dataStore.shutdownTimeout") ?? 25);
+			while (this.activeSaves.size() > 0 && tick() < deadline) {
+				task.wait();
+			}
+
+			if (this.activeSaves.size() > 0) {
+				warn(`PlayerDataService: Shutdown timed out with ${this.activeSaves.size()} saves still pending`);
+			}
+		});
+	}
+
+	private setupNetworkHandlers(): void {
+		ServerHandle.ModifyAttribute((player, key, amount) => {
+			if (!typeIs(key, "string") || !ATTR_KEYS.includes(key)) return undefined;
+			if (!typeIs(amount, "number") || amount !== math.floor(amount)) return undefined;
+
+			return this.modifyAttribute(player, key, amount);
 		});
 	}
 }
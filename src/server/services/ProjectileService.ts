@@ -0,0 +1,329 @@
+/**
+ * @file        src/server/services/ProjectileService.ts
+ * @module      ProjectileService
+ * @layer       Server
+ * @description Simulates ProjectileCatalog entries on the server with per-Heartbeat raycasts,
+ *              resolves hits into CombatService damage and replicates launches to clients for visuals.
+ *              Pierce, splash, homing, gravity and ricochet come from each definition.
+ */
+
+import { RunService, Workspace } from "@rbxts/services";
+import {
+	ProjectileCatalog,
+	ProjectileDefinition,
+	ProjectileHit,
+	ProjectileKey,
+	ProjectileState,
+} from "shared/definitions/Projectile";
+import { generateUniqueId } from "shared/helpers";
+import { SSEntity } from "shared/types/SSEntity";
+import { ServerBroadcast } from "server/network";
+import { CombatService } from "./CombatService";
+import { EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+import { PhysicsBehaviorService } from "./PhysicsBehaviorService";
+
+/** Per-launch overrides of the catalog entry */
+export interface ProjectileLaunchOptions {
+	readonly caster?: SSEntity;
+	/** Replaces the definition's damage, e.g. with a ranked ability's power */
+	readonly damage?: number;
+	/** Replaces the definition's speed */
+	readonly speed?: number;
+	/** Entity a homing projectile steers toward */
+	readonly target?: SSEntity;
+}
+
+interface ActiveProjectile {
+	readonly state: ProjectileState;
+	readonly definition: ProjectileDefinition;
+	/** Caster and anything the projectile should pass through */
+	readonly ignore: Instance[];
+	pierced: number;
+	bounces: number;
+	/** Server time the clients last received the path */
+	syncedAt: number;
+}
+
+export class ProjectileService {
+	private static instance: ProjectileService;
+	private activeProjectiles = new Map<string, ActiveProjectile>();
+	private combatService = CombatService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+	private physicsBehaviorService = PhysicsBehaviorService.getInstance();
+	/** Friendly entities a single step may pass through before giving up */
+	private readonly MAX_PASS_THROUGH = 4;
+	/** Minimum seconds between path corrections while homing */
+	private readonly SYNC_INTERVAL = 0.1;
+	/** How far a ricochet lifts the projectile off the surface it bounced from */
+	private readonly RICOCHET_OFFSET = 0.1;
+
+	private constructor() {
+		this.startStepLoop();
+	}
+
+	public static getInstance(): ProjectileService {
+		if (!ProjectileService.instance) {
+			ProjectileService.instance = new ProjectileService();
+		}
+		return ProjectileService.instance;
+	}
+
+	/**
+	 * Launches a projectile from an origin along a direction
+	 */
+	public launch(
+		key: ProjectileKey,
+		origin: Vector3,
+		direction: Vector3,
+		options: ProjectileLaunchOptions = {},
+	): ProjectileState | undefined {
+		const definition: ProjectileDefinition = ProjectileCatalog[key];
+		if (direction.Magnitude === 0) {
+			warn(`ProjectileService: Cannot launch ${key} without a direction`);
+			return undefined;
+		}
+
+		const state: ProjectileState = {
+			id: generateUniqueId(),
+			key,
+			caster: options.caster,
+			damage: options.damage ?? definition.damage,
+			position: origin,
+			velocity: direction.Unit.mul(options.speed ?? definition.speed),
+			spawnedAt: Workspace.GetServerTimeNow(),
+			target: options.target,
+		};
+
+		const ignore: Instance[] = [];
+		if (options.caster) ignore.push(options.caster);
+
+		this.activeProjectiles.set(state.id, {
+			state,
+			definition,
+			ignore,
+			pierced: 0,
+			bounces: 0,
+			syncedAt: state.spawnedAt,
+		});
+		ServerBroadcast.ProjectileSpawned(state.id, key, origin, state.velocity, state.spawnedAt);
+		this.runHook(state, "onStart", () => definition.onStart?.(state));
+		this.eventService.fire("projectileLaunched", { id: state.id, key, caster: options.caster });
+		return state;
+	}
+
+	/**
+	 * Ends a projectile early without a hit
+	 */
+	public destroy(id: string): boolean {
+		const projectile = this.activeProjectiles.get(id);
+		if (!projectile) return false;
+
+		this.despawn(projectile, false);
+		return true;
+	}
+
+	/**
+	 * Gets the live state of a projectile
+	 */
+	public getProjectile(id: string): ProjectileState | undefined {
+		return this.activeProjectiles.get(id)?.state;
+	}
+
+	/**
+	 * Gets the number of projectiles in flight
+	 */
+	public getActiveCount(): number {
+		return this.activeProjectiles.size();
+	}
+
+	private startStepLoop(): void {
+		RunService.Heartbeat.Connect((dt) => {
+			const now = Workspace.GetServerTimeNow();
+			const projectiles: ActiveProjectile[] = [];
+			for (const [, projectile] of this.activeProjectiles) projectiles.push(projectile);
+
+			for (const projectile of projectiles) {
+				this.step(projectile, dt, now);
+			}
+		});
+	}
+
+	private step(projectile: ActiveProjectile, dt: number, now: number): void {
+		const { state, definition } = projectile;
+
+		this.runHook(state, "onTick", () => definition.onTick?.(state, dt));
+		if (!this.activeProjectiles.has(state.id)) return;
+
+		this.steer(projectile, dt, now);
+
+		// Constant acceleration, so clients can reproduce the arc exactly from the last sync
+		const gravity = new Vector3(0, -(definition.gravity ?? 0), 0);
+		const displacement = state.velocity.mul(dt).add(gravity.mul(0.5 * dt * dt));
+		let remaining = displacement;
+		let hit = this.cast(projectile, remaining);
+		state.velocity = state.velocity.add(gravity.mul(dt));
+
+		// A pierce carries on with the rest of the step, keeping the projectile on the path clients draw
+		while (hit) {
+			remaining = remaining.sub(hit.position.sub(state.position));
+			state.position = hit.position;
+			this.resolveHit(projectile, hit);
+			if (!this.afterHit(projectile, hit) || !this.activeProjectiles.has(state.id)) break;
+			hit = this.cast(projectile, remaining);
+		}
+		if (!this.activeProjectiles.has(state.id)) return;
+		if (!hit) {
+			state.position = state.position.add(remaining);
+		}
+
+		if (now - state.spawnedAt >= definition.lifetime) {
+			this.despawn(projectile, false);
+		}
+	}
+
+	/** Turns a homing projectile toward its locked target by at most the definition's turn rate */
+	private steer(projectile: ActiveProjectile, dt: number, now: number): void {
+		const { state, definition } = projectile;
+		if (definition.homing === undefined || !state.target || !this.entityService.isAlive(state.target)) return;
+
+		const toTarget = state.target.GetPivot().Position.sub(state.position);
+		if (toTarget.Magnitude === 0 || state.velocity.Magnitude === 0) return;
+
+		const current = state.velocity.Unit;
+		const desired = toTarget.Unit;
+		const angle = math.acos(math.clamp(current.Dot(desired), -1, 1));
+		if (angle < 1e-3) return;
+
+		const steered = current.Lerp(desired, math.min(1, (math.rad(definition.homing) * dt) / angle));
+		if (steered.Magnitude === 0) return;
+
+		state.velocity = steered.Unit.mul(state.velocity.Magnitude);
+		if (now - projectile.syncedAt >= this.SYNC_INTERVAL) {
+			this.sync(projectile);
+		}
+	}
+
+	/**
+	 * Decides whether a hit ends the projectile: entities use up pierce, world geometry uses up ricochet.
+	 * Returns true when the projectile pierced the target and keeps its path.
+	 */
+	private afterHit(projectile: ActiveProjectile, hit: ProjectileHit): boolean {
+		const { state, definition } = projectile;
+
+		if (hit.target && projectile.pierced < (definition.pierce ?? 0)) {
+			projectile.pierced += 1;
+			projectile.ignore.push(hit.target);
+			return true;
+		}
+
+		if (!hit.target && projectile.bounces < (definition.ricochet ?? 0)) {
+			projectile.bounces += 1;
+			const normal = hit.normal.Unit;
+			state.velocity = state.velocity.sub(normal.mul(2 * state.velocity.Dot(normal)));
+			state.position = hit.position.add(normal.mul(this.RICOCHET_OFFSET));
+			this.sync(projectile);
+			return false;
+		}
+
+		if (definition.splash) {
+			this.splash(projectile, hit);
+		}
+		this.despawn(projectile, true);
+		return false;
+	}
+
+	/** Damages hostile entities around the impact, scaling linearly from full damage to the edge falloff */
+	private splash(projectile: ActiveProjectile, hit: ProjectileHit): void {
+		const { state, definition } = projectile;
+		const splash = definition.splash!;
+
+		const rigs = this.entityService.getEntitiesInRadius(new CFrame(hit.position), splash.radius, state.caster);
+		for (const info of rigs) {
+			if (info.rig === hit.target) continue;
+
+			const scale = 1 - (1 - splash.falloff) * math.clamp(info.distance / splash.radius, 0, 1);
+			this.combatService.applyDamage({
+				source: state.caster,
+				target: info.rig,
+				baseAmount: state.damage * scale,
+				damageType: definition.damageType,
+			});
+		}
+	}
+
+	/** Sends the current path to clients so they can resimulate the visual */
+	private sync(projectile: ActiveProjectile): void {
+		const { state } = projectile;
+		projectile.syncedAt = Workspace.GetServerTimeNow();
+		ServerBroadcast.ProjectileUpdated(state.id, state.position, state.velocity, projectile.syncedAt);
+	}
+
+	/** Raycasts one step, passing through the caster and entities that are not hostile to it */
+	private cast(projectile: ActiveProjectile, displacement: Vector3): ProjectileHit | undefined {
+		const { state } = projectile;
+		const params = new RaycastParams();
+		params.FilterType = Enum.RaycastFilterType.Exclude;
+
+		for (let attempt = 0; attempt <= this.MAX_PASS_THROUGH; attempt++) {
+			params.FilterDescendantsInstances = projectile.ignore;
+			const result = Workspace.Raycast(state.position, displacement, params);
+			if (!result || !result.Instance.IsA("BasePart")) return undefined;
+
+			const model = result.Instance.FindFirstAncestorOfClass("Model");
+			if (model && this.entityService.isEntity(model)) {
+				const hostile = !state.caster || this.entityService.isHostile(state.caster, model);
+				if (!hostile || !this.entityService.isAlive(model)) {
+					projectile.ignore.push(model);
+					continue;
+				}
+				return { part: result.Instance, position: result.Position, normal: result.Normal, target: model };
+			}
+
+			return { part: result.Instance, position: result.Position, normal: result.Normal };
+		}
+		return undefined;
+	}
+
+	private resolveHit(projectile: ActiveProjectile, hit: ProjectileHit): void {
+		const { state, definition } = projectile;
+
+		if (hit.target) {
+			this.combatService.applyDamage({
+				source: state.caster,
+				target: hit.target,
+				baseAmount: state.damage,
+				damageType: definition.damageType,
+			});
+
+			this.physicsBehaviorService.apply(definition.physicsType, {
+				source: state.caster,
+				target: hit.target,
+				origin: hit.position.sub(state.velocity.Unit),
+				damage: state.damage,
+				damageType: definition.damageType,
+			});
+		}
+
+		this.runHook(state, "onHit", () => definition.onHit?.(state, hit));
+		this.eventService.fire("projectileHit", { id: state.id, key: state.key, hit });
+	}
+
+	private despawn(projectile: ActiveProjectile, hit: boolean): void {
+		const { state, definition } = projectile;
+		if (!this.activeProjectiles.delete(state.id)) return;
+
+		ServerBroadcast.ProjectileDestroyed(state.id, state.position, hit);
+		this.runHook(state, "onEnd", () => definition.onEnd?.(state));
+		this.eventService.fire("projectileEnded", { id: state.id, key: state.key, hit });
+	}
+
+	/** Projectile hooks are content code; a failing hook must not stop the step loop */
+	private runHook(state: ProjectileState, hook: string, run: () => void): void {
+		const [success, err] = pcall(run);
+		if (!success) {
+			warn(`ProjectileService: ${state.key}.${hook} failed: ${err}`);
+		}
+	}
+}
@@ -0,0 +1,53 @@
+/**
+ * @file        src/server/services/ReplicationService.ts
+ * @module      ReplicationService
+ * @layer       Server
+ * @description Service for replicating server-authoritative profile data to the owning client.
+ */
+
+import { ServerSend } from "server/network";
+import { ProfileDataKey, ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
+import { EventService } from "./EventService";
+
+export class ReplicationService {
+	private static instance: ReplicationService;
+	private eventService = EventService.getInstance();
+
+	private constructor() {
+		this.setupProfileEvents();
+	}
+
+	public static getInstance(): ReplicationService {
+		if (!ReplicationService.instance) {
+			ReplicationService.instance = new ReplicationService();
+		}
+		return ReplicationService.instance;
+	}
+
+	/**
+	 * Sends the full profile to a player
+	 */
+	public sendSnapshot(player: Player, data: ProfileDataMap): void {
+		ServerSend.ProfileSnapshot(player, data);
+	}
+
+	/**
+	 * Sends a single profile bucket to a player
+	 */
+	public sendDelta<K extends ProfileDataKey>(player: Player, key: K, value: ProfileDataMap[K]): void {
+		ServerSend.ProfileUpdated(player, key, value);
+	}
+
+	private setupProfileEvents(): void {
+		this.eventService.on("profileLoaded", (data: { player: Player; profile: ProfileDataMap }) => {
+			this.sendSnapshot(data.player, data.profile);
+		});
+
+		this.eventService.on(
+			"profileChanged",
+			(data: { player: Player; key: ProfileDataKey; value: ProfileDataMap[ProfileDataKey] }) => {
+				this.sendDelta(data.player, data.key, data.value);
+			},
+		);
+	}
+}
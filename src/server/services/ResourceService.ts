@@ -7,6 +7,7 @@
 
 import { Players } from "@rbxts/services";
 import { RESOURCE_KEYS, ResourceKey, ResourceMeta, ResourceMeta as ResourceMetaRecord, DEFAULT_RESOURCES } from "shared/definitions/Resources";
+import { ServerSend } from "server/network";
 
 interface PlayerResources {
 	readonly playerId: number;
@@ -149,6 +150,11 @@ export class ResourceService {
 		};
 		this.playerResources.set(player.UserId, newPlayerData);
 
+		ServerSend.ResourceUpdated(player, resourceKey, {
+			current: playerData.resources.get(resourceKey) ?? maxValue,
+			max: maxValue,
+		});
+
 		return true;
 	}
 
@@ -240,8 +246,8 @@ export class ResourceService {
 	}
 
 	private onResourceChanged(player: Player, resourceKey: ResourceKey, newValue: number, maxValue: number): void {
-		// This is where you would fire events to update UI, save data, etc.
-		// For now, just a debug print
+		ServerSend.ResourceUpdated(player, resourceKey, { current: newValue, max: maxValue });
+
 		const percentage = math.floor((newValue / maxValue) * 100);
 		print(`${player.Name}'s ${resourceKey}: ${newValue}/${maxValue} (${percentage}%)`);
 
@@ -0,0 +1,448 @@
+/**
+ * @file        src/server/services/StatusEffectService.ts
+ * @module      StatusEffectService
+ * @layer       Server
+ * @description Applies status effects to any entity, ticks them from a single Heartbeat loop,
+ *              resolves stacking policies and reverts their effects on expiry or death.
+ */
+
+import { RunService, Workspace } from "@rbxts/services";
+import {
+	StatusEffectCategory,
+	StatusEffectDTO,
+	StatusEffectKey,
+	StatusEffectMeta,
+	StatusStackingPolicy,
+} from "shared/definitions/StatusEffect";
+import { generateUniqueId } from "shared/helpers";
+import { SSEntity } from "shared/types/SSEntity";
+import { ServerSend } from "server/network";
+import { CombatService } from "./CombatService";
+import { ConfigService } from "./ConfigService";
+import { EntityOwner, EntityService } from "./EntityService";
+import { EventService } from "./EventService";
+
+/** One running application of an effect; timestamps are Workspace.GetServerTimeNow() */
+export interface StatusEffectInstance {
+	readonly id: string;
+	readonly key: StatusEffectKey;
+	readonly source?: SSEntity;
+	/** Intensity stacks; always 1 for refresh and independent effects */
+	stacks: number;
+	/** Per-stack amount applied each tick */
+	amount: number;
+	duration: number;
+	readonly appliedAt: number;
+	expiresAt: number;
+	nextTickAt: number;
+}
+
+/** Per-application overrides of the effect's StatusEffectMeta */
+export interface ApplyStatusEffectOptions {
+	readonly source?: SSEntity;
+	readonly duration?: number;
+	readonly amount?: number;
+	readonly stacking?: StatusStackingPolicy;
+}
+
+export type StatusEffectRemovalReason = "expired" | "removed" | "cleansed" | "death";
+
+/** Per-target crowd-control history for immunity windows and diminishing returns */
+interface CrowdControlState {
+	immuneUntil: number;
+	diminishingSteps: number;
+	resetAt: number;
+}
+
+interface MovementBaseline {
+	readonly walkSpeed: number;
+	readonly jumpPower: number;
+}
+
+export class StatusEffectService {
+	private static instance: StatusEffectService;
+	private activeEffects = new Map<Model, StatusEffectInstance[]>();
+	private movementBaselines = new Map<Model, MovementBaseline>();
+	private crowdControlStates = new Map<Model, CrowdControlState>();
+	private combatService = CombatService.getInstance();
+	private configService = ConfigService.getInstance();
+	private entityService = EntityService.getInstance();
+	private eventService = EventService.getInstance();
+
+	private constructor() {
+		this.setupEntityEvents();
+		this.startTickLoop();
+	}
+
+	public static getInstance(): StatusEffectService {
+		if (!StatusEffectService.instance) {
+			StatusEffectService.instance = new StatusEffectService();
+		}
+		return StatusEffectService.instance;
+	}
+
+	/**
+	 * Applies an effect to an entity, resolving re-application through its stacking policy
+	 */
+	public applyEffect(
+		target: SSEntity,
+		key: StatusEffectKey,
+		options: ApplyStatusEffectOptions = {},
+	): StatusEffectInstance | undefined {
+		if (!this.entityService.isAlive(target)) return undefined;
+
+		const meta = StatusEffectMeta[key];
+		const policy = options.stacking ?? meta.stacking;
+		const amount = options.amount ?? meta.amount;
+		const now = Workspace.GetServerTimeNow();
+
+		let duration = options.duration ?? meta.duration;
+		if (meta.category === "CC") {
+			const diminished = this.applyDiminishingReturns(target, duration, now);
+			if (diminished === undefined) {
+				this.eventService.fire("statusEffectResisted", { model: target, key });
+				return undefined;
+			}
+			duration = diminished;
+		}
+
+		let effects = this.activeEffects.get(target);
+		if (!effects) {
+			effects = [];
+			this.activeEffects.set(target, effects);
+		}
+		const existing = effects.filter((effect) => effect.key === key);
+
+		// Refresh/intensity keep a single instance; independent refreshes the soonest to expire once capped
+		let instance: StatusEffectInstance | undefined;
+		if (policy !== "independent" && existing.size() > 0) {
+			instance = existing[0];
+			if (policy === "intensity") {
+				instance.stacks = math.min(instance.stacks + 1, math.max(meta.maxStacks, 1));
+			}
+		} else if (policy === "independent" && existing.size() >= math.max(meta.maxStacks, 1)) {
+			instance = existing.reduce((soonest, effect) => (effect.expiresAt < soonest.expiresAt ? effect : soonest));
+		}
+
+		if (instance) {
+			instance.amount = amount;
+			instance.duration = duration;
+			instance.expiresAt = now + duration;
+		} else {
+			instance = {
+				id: generateUniqueId(),
+				key,
+				source: options.source,
+				stacks: 1,
+				amount,
+				duration,
+				appliedAt: now,
+				expiresAt: now + duration,
+				nextTickAt: now + meta.tickRate,
+			};
+			effects.push(instance);
+		}
+
+		if (existing.size() === 0 && meta.behavior === "DamageModifier") {
+			this.combatService.setStatusEffect(target, key, true);
+		}
+		this.updateMovement(target);
+
+		this.eventService.fire("statusEffectApplied", {
+			model: target,
+			key,
+			stacks: this.getStacks(target, key),
+			expiresAt: this.getExpiresAt(target, key),
+		});
+		this.replicate(target);
+		return instance;
+	}
+
+	/**
+	 * Removes every instance of an effect from an entity
+	 */
+	public removeEffect(target: Model, key: StatusEffectKey): boolean {
+		return this.removeWhere(target, (effect) => effect.key === key, "removed") > 0;
+	}
+
+	/**
+	 * Removes every effect of a category (e.g. all DoTs) from an entity and returns how many instances were removed
+	 */
+	public cleanse(target: Model, category: StatusEffectCategory): number {
+		return this.removeWhere(target, (effect) => StatusEffectMeta[effect.key].category === category, "cleansed");
+	}
+
+	/**
+	 * Removes every effect from an entity
+	 */
+	public clearEffects(target: Model, reason: StatusEffectRemovalReason = "removed"): void {
+		this.removeWhere(target, () => true, reason);
+	}
+
+	/**
+	 * Gets the running effect instances on an entity
+	 */
+	public getEffects(target: Model): readonly StatusEffectInstance[] {
+		return this.activeEffects.get(target) ?? [];
+	}
+
+	/**
+	 * Checks if an entity has an effect active
+	 */
+	public hasEffect(target: Model, key: StatusEffectKey): boolean {
+		return this.getEffects(target).some((effect) => effect.key === key);
+	}
+
+	/**
+	 * Gets an effect's stack count: intensity stacks, or the number of independent instances
+	 */
+	public getStacks(target: Model, key: StatusEffectKey): number {
+		let stacks = 0;
+		for (const effect of this.getEffects(target)) {
+			if (effect.key === key) stacks += effect.stacks;
+		}
+		return stacks;
+	}
+
+	/**
+	 * Checks if an entity is frozen, stunned or otherwise unable to act
+	 */
+	public isActionLocked(target: Model): boolean {
+		return this.getEffects(target).some((effect) => StatusEffectMeta[effect.key].behavior === "MovementLock");
+	}
+
+	/**
+	 * Checks if an entity is inside its post-CC immunity window
+	 */
+	public isCrowdControlImmune(target: Model): boolean {
+		const state = this.crowdControlStates.get(target);
+		return state !== undefined && Workspace.GetServerTimeNow() < state.immuneUntil;
+	}
+
+	/**
+	 * Summarises an entity's effects per key, in the shape replicated to clients
+	 */
+	public getEffectSummaries(target: Model): StatusEffectDTO[] {
+		const summaries = new Map<StatusEffectKey, StatusEffectDTO>();
+		for (const effect of this.getEffects(target)) {
+			const summary = summaries.get(effect.key);
+			if (summary) {
+				summary.stacks += effect.stacks;
+				summary.startTime = math.min(summary.startTime, effect.appliedAt);
+				summary.expiresAt = math.max(summary.expiresAt, effect.expiresAt);
+			} else {
+				summaries.set(effect.key, {
+					key: effect.key,
+					stacks: effect.stacks,
+					startTime: effect.appliedAt,
+					expiresAt: effect.expiresAt,
+				});
+			}
+		}
+
+		const list: StatusEffectDTO[] = [];
+		for (const [, summary] of summaries) list.push(summary);
+		return list;
+	}
+
+	/**
+	 * Scales a CC duration by the target's recent CC count; undefined when the CC is resisted
+	 * (immunity window, or diminishing returns exhausted)
+	 */
+	private applyDiminishingReturns(target: Model, duration: number, now: number): number | undefined {
+		let state = this.crowdControlStates.get(target);
+		if (!state) {
+			state = { immuneUntil: 0, diminishingSteps: 0, resetAt: 0 };
+			this.crowdControlStates.set(target, state);
+		}
+
+		if (now < state.immuneUntil) return undefined;
+		if (now >= state.resetAt) state.diminishingSteps = 0;
+
+		const maxSteps = this.configService.get<number>("combat.ccMaxDiminishingSteps") ?? 3;
+		if (state.diminishingSteps >= maxSteps) return undefined;
+
+		const factor = this.configService.get<number>("combat.ccDiminishingFactor") ?? 0.5;
+		const diminished = duration * factor ** state.diminishingSteps;
+		state.diminishingSteps += 1;
+		state.resetAt = now + diminished + (this.configService.get<number>("combat.ccDiminishingWindow") ?? 0);
+		return diminished;
+	}
+
+	/** Starts the immunity window once the last CC effect on a target ends */
+	private onCrowdControlEnded(target: Model): void {
+		const state = this.crowdControlStates.get(target);
+		if (!state) return;
+
+		const now = Workspace.GetServerTimeNow();
+		state.immuneUntil = now + (this.configService.get<number>("combat.ccImmunityDuration") ?? 0);
+		state.resetAt = now + (this.configService.get<number>("combat.ccDiminishingWindow") ?? 0);
+	}
+
+	private getExpiresAt(target: Model, key: StatusEffectKey): number {
+		let expiresAt = 0;
+		for (const effect of this.getEffects(target)) {
+			if (effect.key === key) expiresAt = math.max(expiresAt, effect.expiresAt);
+		}
+		return expiresAt;
+	}
+
+	/** Players see their own character's effects; NPC effects are not replicated */
+	private replicate(target: Model): void {
+		const owner = this.entityService.getOwner(target);
+		if (owner?.kind !== "player" || this.entityService.getPlayerEntity(owner.player) !== target) return;
+
+		ServerSend.StatusEffectsUpdated(owner.player, this.getEffectSummaries(target));
+	}
+
+	private startTickLoop(): void {
+		RunService.Heartbeat.Connect(() => this.tickAll(Workspace.GetServerTimeNow()));
+	}
+
+	private tickAll(now: number): void {
+		// Snapshot the targets; ticks can kill entities and remove their effects mid-loop
+		const targets: Model[] = [];
+		for (const [target] of this.activeEffects) targets.push(target);
+
+		for (const target of targets) {
+			if (!this.entityService.isAlive(target)) {
+				this.clearEffects(target, "death");
+				continue;
+			}
+
+			for (const effect of [...this.getEffects(target)]) {
+				const tickRate = StatusEffectMeta[effect.key].tickRate;
+				while (tickRate > 0 && effect.nextTickAt <= math.min(now, effect.expiresAt)) {
+					effect.nextTickAt += tickRate;
+					this.tickEffect(target as SSEntity, effect);
+				}
+			}
+
+			this.removeWhere(target, (effect) => effect.expiresAt <= now, "expired");
+		}
+	}
+
+	private tickEffect(target: SSEntity, effect: StatusEffectInstance): void {
+		const meta = StatusEffectMeta[effect.key];
+		if (meta.behavior !== "DamageOverTime" || !this.entityService.isAlive(target)) return;
+
+		const total = effect.amount * effect.stacks;
+		if (total < 0) {
+			this.combatService.applyDamage({
+				source: effect.source,
+				target,
+				baseAmount: -total,
+				damageType: meta.damageType ?? "physical",
+				canCrit: false,
+			});
+		} else if (total > 0) {
+			this.entityService.modifyHealth(target, total);
+		}
+	}
+
+	/** Removes matching instances and reverts any effect left with no instances */
+	private removeWhere(
+		target: Model,
+		predicate: (effect: StatusEffectInstance) => boolean,
+		reason: StatusEffectRemovalReason,
+	): number {
+		const effects = this.activeEffects.get(target);
+		if (!effects) return 0;
+
+		const removed = effects.filter(predicate);
+		if (removed.size() === 0) return 0;
+
+		const remaining = effects.filter((effect) => !predicate(effect));
+		if (remaining.size() > 0) {
+			this.activeEffects.set(target, remaining);
+		} else {
+			this.activeEffects.delete(target);
+		}
+
+		const endedKeys = new Set<StatusEffectKey>();
+		for (const effect of removed) {
+			if (!remaining.some((other) => other.key === effect.key)) endedKeys.add(effect.key);
+		}
+
+		const crowdControlEnded =
+			reason !== "death" &&
+			removed.some((effect) => StatusEffectMeta[effect.key].category === "CC") &&
+			!remaining.some((effect) => StatusEffectMeta[effect.key].category === "CC");
+		if (crowdControlEnded) {
+			this.onCrowdControlEnded(target);
+		}
+
+		for (const key of endedKeys) {
+			if (StatusEffectMeta[key].behavior === "DamageModifier") {
+				this.combatService.setStatusEffect(target, key, false);
+			}
+			this.eventService.fire("statusEffectRemoved", { model: target, key, reason });
+		}
+
+		this.updateMovement(target);
+		this.replicate(target);
+		return removed.size();
+	}
+
+	/**
+	 * Recomputes WalkSpeed/JumpPower from the entity's baseline and its movement effects,
+	 * restoring the baseline once none remain
+	 */
+	private updateMovement(target: Model): void {
+		const humanoid = target.FindFirstChildOfClass("Humanoid");
+		if (!humanoid) return;
+
+		let locked = false;
+		let affected = false;
+		let walkSpeedBonus = 0;
+		let jumpPowerBonus = 0;
+
+		for (const effect of this.getEffects(target)) {
+			switch (StatusEffectMeta[effect.key].behavior) {
+				case "MovementLock":
+					locked = true;
+					affected = true;
+					break;
+				case "WalkSpeed":
+					walkSpeedBonus += effect.amount * effect.stacks;
+					affected = true;
+					break;
+				case "JumpPower":
+					jumpPowerBonus += effect.amount * effect.stacks;
+					affected = true;
+					break;
+			}
+		}
+
+		let baseline = this.movementBaselines.get(target);
+		if (!affected) {
+			if (baseline) {
+				humanoid.WalkSpeed = baseline.walkSpeed;
+				humanoid.JumpPower = baseline.jumpPower;
+				this.movementBaselines.delete(target);
+			}
+			return;
+		}
+
+		if (!baseline) {
+			baseline = { walkSpeed: humanoid.WalkSpeed, jumpPower: humanoid.JumpPower };
+			this.movementBaselines.set(target, baseline);
+		}
+
+		humanoid.WalkSpeed = locked ? 0 : math.max(0, baseline.walkSpeed + walkSpeedBonus);
+		humanoid.JumpPower = locked ? 0 : math.max(0, baseline.jumpPower + jumpPowerBonus);
+	}
+
+	private setupEntityEvents(): void {
+		this.eventService.on("entityUnregistered", (data: { model: Model; owner: EntityOwner }) => {
+			this.clearEffects(data.model, "removed");
+			this.movementBaselines.delete(data.model);
+			this.crowdControlStates.delete(data.model);
+
+			// The registry no longer maps the old character to its player, so clear the HUD directly
+			if (data.owner.kind === "player" && data.owner.player.Parent) {
+				ServerSend.StatusEffectsUpdated(data.owner.player, []);
+			}
+		});
+	}
+}
@@ -5,6 +5,9 @@
  * @description Service for validating game data, user inputs, and maintaining data integrity.
  */
 
+import { isItemKey } from "shared/definitions/Items";
+import { getItemMaxStack } from "shared/definitions/ProfileDefinitions/Inventory";
+
 export class ValidationService {
 	private static instance: ValidationService;
 
@@ -79,7 +82,11 @@ export class ValidationService {
 			return { valid: false, reason: "Item quantity must be positive" };
 		}
 		
-		if (item.quantity > 9999) {
+		if (!isItemKey(item.id)) {
+			return { valid: false, reason: "Unknown item ID" };
+		}
+		
+		if (item.quantity > getItemMaxStack(item.id)) {
 			return { valid: false, reason: "Item quantity exceeds maximum stack size" };
 		}
 		
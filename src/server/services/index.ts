@@ -11,11 +11,20 @@ export { LootService } from "./LootService";
 export { ResourceService } from "./ResourceService";
 export { MessageService } from "./MessageService";
 export { PlayerDataService } from "./PlayerDataService";
+export { InventoryService } from "./InventoryService";
 
 // System Services
+export { EntityService } from "./EntityService";
 export { CombatService } from "./CombatService";
+export { StatusEffectService } from "./StatusEffectService";
+export { PhysicsBehaviorService } from "./PhysicsBehaviorService";
+export { ProjectileService } from "./ProjectileService";
+export { BeamService } from "./BeamService";
+export { AbilityService } from "./AbilityService";
+export { NPCBehaviorService } from "./NPCBehaviorService";
 export { WorldService } from "./WorldService";
 export { EventService } from "./EventService";
+export { ReplicationService } from "./ReplicationService";
 
 // Utility Services
 export { ValidationService } from "./ValidationService";
@@ -1,4 +1,6 @@
 import { GameImages } from "shared/assets";
+import type { DamageTypeKey } from "./Combat";
+import type { ResourceKey } from "./Resources";
 
 /**
  * @file        BeamDefinition.ts
@@ -19,6 +21,14 @@ import { GameImages } from "shared/assets";
 export const BeamPhysicsType = ["None", "Pull", "Repel", "Chain"] as const;
 export type BeamPhysicsType = (typeof BeamPhysicsType)[number];
 
+/** Resource a tether moves from its target to its caster while it holds. */
+export interface BeamDrain {
+	readonly resource: ResourceKey;
+	readonly amount: number; // taken from the target per interval
+	readonly interval: number; // seconds between transfers
+	readonly damageType?: DamageTypeKey; // Health drains are dealt as this damage type; physical by default
+}
+
 /** Blueprint for a beam archetype. */
 export interface BeamDefinition {
 	readonly texture?: string;
@@ -29,6 +39,9 @@ export interface BeamDefinition {
 	readonly lifetime: number; // seconds
 	readonly tweenInfo?: TweenInfo; // optional pulse / wobble
 	readonly physicsType?: BeamPhysicsType; // how it interacts with other objects
+	readonly maxRange?: number; // studs between caster and target before the tether breaks
+	readonly requiresLineOfSight?: boolean; // breaks when geometry blocks the caster's view of the target
+	readonly drain?: BeamDrain; // resource transfer while the tether holds
 	readonly onTick?: (beam: Beam, dt: number) => void; // runtime hook
 	readonly onStart?: (beam: Beam) => void; // called when beam is created
 	readonly onEnd?: (beam: Beam) => void; // called when beam is destroyed
@@ -66,8 +79,11 @@ export const BeamCatalog = {
 		color: new ColorSequence(Color3.fromRGB(140, 0, 255), Color3.fromRGB(60, 0, 80)),
 		width0: 0.3,
 		width1: 0.15,
-		lifetime: 116,
+		lifetime: 6,
 		physicsType: "Chain",
+		maxRange: 40,
+		requiresLineOfSight: true,
+		drain: { resource: "Health", amount: 5, interval: 0.5 },
 		tweenInfo: new TweenInfo(0.8, Enum.EasingStyle.Linear, Enum.EasingDirection.InOut, -1, true),
 		segments: 15,
 		onTick: (beam, dt) => {
@@ -0,0 +1,57 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        Combat.ts
+ * @module      CombatDefinitions
+ * @layer       Shared/Definitions
+ * @description Damage types, resistances, combat teams and the status effects that modify damage.
+ */
+
+import { AttributeKey } from "./ProfileDefinitions/Attributes";
+import { StatusEffectKey } from "./StatusEffect";
+
+/* =============================================== Damage Types =============================================== */
+export const DAMAGE_TYPE_KEYS = ["physical", "fire", "ice", "lightning"] as const;
+export type DamageTypeKey = (typeof DAMAGE_TYPE_KEYS)[number];
+
+export interface DamageTypeMeta {
+	displayName: string;
+	color: Color3; // Damage number / hit flash color
+	scalingAttribute: AttributeKey; // Attacker attribute that scales this damage
+}
+
+export const DamageTypeMeta = {
+	physical: { displayName: "Physical", color: Color3.fromRGB(230, 230, 230), scalingAttribute: "str" },
+	fire: { displayName: "Fire", color: Color3.fromRGB(255, 120, 40), scalingAttribute: "int" },
+	ice: { displayName: "Ice", color: Color3.fromRGB(120, 200, 255), scalingAttribute: "int" },
+	lightning: { displayName: "Lightning", color: Color3.fromRGB(255, 240, 90), scalingAttribute: "int" },
+} as const satisfies Record<DamageTypeKey, DamageTypeMeta>;
+
+/** Fraction of each damage type ignored by the target (1 = immune, negative = weakness) */
+export type DamageResistances = Partial<Record<DamageTypeKey, number>>;
+
+/* =============================================== Teams =============================================== */
+export const COMBAT_TEAM_KEYS = ["Players", "Monsters", "Neutral"] as const;
+export type CombatTeamKey = (typeof COMBAT_TEAM_KEYS)[number];
+
+/** CollectionService tag on every registered entity model */
+export const SSENTITY_TAG = "SSEntity";
+/** Model attribute holding the entity's CombatTeamKey, readable on server and client */
+export const ENTITY_TEAM_ATTRIBUTE = "Team";
+
+/** Neutral entities are hostile to nobody; everyone else is hostile to other teams */
+export function areTeamsHostile(a: CombatTeamKey, b: CombatTeamKey): boolean {
+	return a !== b && a !== "Neutral" && b !== "Neutral";
+}
+
+/* =============================================== Status Modifiers =============================================== */
+export interface DamageStatusModifier {
+	outgoing?: number; // Multiplier on damage the affected entity deals
+	incoming?: number; // Multiplier on damage the affected entity takes
+}
+
+export const DamageStatusModifiers: Partial<Record<StatusEffectKey, DamageStatusModifier>> = {
+	PowerBoost: { outgoing: 1.25 },
+	Raged: { outgoing: 1.5, incoming: 1.2 },
+	Invulnerable: { incoming: 0 },
+};
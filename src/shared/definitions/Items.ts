@@ -0,0 +1,159 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        Items.ts
+ * @module      ItemDefinitions
+ * @layer       Shared/Definitions
+ * @description Canonical catalog of items referenced by loot tables, inventory, shops and UI.
+ */
+
+import { GameImages } from "shared/assets";
+import { RarityKey } from "./Rarity";
+import { ResourceKey } from "./Resources";
+import { StatusEffectKey } from "./StatusEffect";
+
+/* =============================================== Item Keys =============================================== */
+export const ITEM_KEYS = [
+	// Coins
+	"COPPER_COIN",
+	"GOLD_COIN",
+	// Consumables
+	"SMALL_HEALTH_POTION",
+	"MEDIUM_HEALTH_POTION",
+	"LARGE_HEALTH_POTION",
+	"SMALL_MANA_POTION",
+	"LARGE_MANA_POTION",
+	// Materials
+	"TATTERED_CLOTH",
+	"IRON_INGOT",
+	"BONE_SHARD",
+	"NECROTIC_DUST",
+	"CRACKED_RIB",
+	"AZURE_CRYSTAL",
+	"MYSTIC_DUST",
+	"PRISMATIC_SHARD",
+	"GOLEM_CORE",
+	"GOBLIN_RUNE_FRAGMENT",
+	"MYTHIC_SCROLL_FRAGMENT",
+	// Gems
+	"RARE_GEM",
+	"EPIC_GEM",
+	// Quest items
+	"GOBLIN_EAR",
+	// Tokens
+	"LEGENDARY_WEAPON_TOKEN",
+] as const;
+
+export type ItemKey = (typeof ITEM_KEYS)[number];
+
+export function isItemKey(key: string): key is ItemKey {
+	return ITEM_KEYS.includes(key as ItemKey);
+}
+
+/* =============================================== Item Categories & Slots =============================================== */
+export const ITEM_CATEGORY_KEYS = ["Coin", "Consumable", "Material", "Gem", "Quest", "Token", "Equipment"] as const;
+export type ItemCategoryKey = (typeof ITEM_CATEGORY_KEYS)[number];
+
+export const EQUIP_SLOT_KEYS = ["MainHand", "OffHand", "Head", "Chest", "Legs", "Feet", "Trinket"] as const;
+export type EquipSlotKey = (typeof EQUIP_SLOT_KEYS)[number];
+
+/** What happens when an item is used */
+export type ItemUseEffect =
+	| { kind: "RestoreResource"; resource: ResourceKey; amount: number }
+	| { kind: "ApplyStatusEffect"; effect: StatusEffectKey };
+
+/* =============================================== Item Metadata =============================================== */
+export interface ItemMeta {
+	displayName: string;
+	iconId: string;
+	rarity: RarityKey;
+	category: ItemCategoryKey;
+	maxStack: number; // Most units a single inventory slot can hold
+	equipSlot?: EquipSlotKey; // Only for equippable items
+	useEffect?: ItemUseEffect; // Only for usable items
+}
+
+const PlaceholderIcon = GameImages.DefaultUnassigned; // Replace with item art as it lands
+
+export const ItemMetaMap = {
+	COPPER_COIN: { displayName: "Copper Coin", iconId: PlaceholderIcon, rarity: "Common", category: "Coin", maxStack: 9999 },
+	GOLD_COIN: { displayName: "Gold Coin", iconId: PlaceholderIcon, rarity: "Uncommon", category: "Coin", maxStack: 9999 },
+
+	SMALL_HEALTH_POTION: {
+		displayName: "Small Health Potion",
+		iconId: PlaceholderIcon,
+		rarity: "Common",
+		category: "Consumable",
+		maxStack: 20,
+		useEffect: { kind: "RestoreResource", resource: "Health", amount: 25 },
+	},
+	MEDIUM_HEALTH_POTION: {
+		displayName: "Health Potion",
+		iconId: PlaceholderIcon,
+		rarity: "Uncommon",
+		category: "Consumable",
+		maxStack: 20,
+		useEffect: { kind: "RestoreResource", resource: "Health", amount: 50 },
+	},
+	LARGE_HEALTH_POTION: {
+		displayName: "Large Health Potion",
+		iconId: PlaceholderIcon,
+		rarity: "Rare",
+		category: "Consumable",
+		maxStack: 20,
+		useEffect: { kind: "RestoreResource", resource: "Health", amount: 100 },
+	},
+	SMALL_MANA_POTION: {
+		displayName: "Small Mana Potion",
+		iconId: PlaceholderIcon,
+		rarity: "Common",
+		category: "Consumable",
+		maxStack: 20,
+		useEffect: { kind: "RestoreResource", resource: "Mana", amount: 25 },
+	},
+	LARGE_MANA_POTION: {
+		displayName: "Large Mana Potion",
+		iconId: PlaceholderIcon,
+		rarity: "Rare",
+		category: "Consumable",
+		maxStack: 20,
+		useEffect: { kind: "RestoreResource", resource: "Mana", amount: 100 },
+	},
+
+	TATTERED_CLOTH: { displayName: "Tattered Cloth", iconId: PlaceholderIcon, rarity: "Common", category: "Material", maxStack: 250 },
+	IRON_INGOT: { displayName: "Iron Ingot", iconId: PlaceholderIcon, rarity: "Uncommon", category: "Material", maxStack: 99 },
+	BONE_SHARD: { displayName: "Bone Shard", iconId: PlaceholderIcon, rarity: "Common", category: "Material", maxStack: 250 },
+	NECROTIC_DUST: { displayName: "Necrotic Dust", iconId: PlaceholderIcon, rarity: "Uncommon", category: "Material", maxStack: 99 },
+	CRACKED_RIB: { displayName: "Cracked Rib", iconId: PlaceholderIcon, rarity: "Common", category: "Material", maxStack: 99 },
+	AZURE_CRYSTAL: { displayName: "Azure Crystal", iconId: PlaceholderIcon, rarity: "Rare", category: "Material", maxStack: 99 },
+	MYSTIC_DUST: { displayName: "Mystic Dust", iconId: PlaceholderIcon, rarity: "Uncommon", category: "Material", maxStack: 99 },
+	PRISMATIC_SHARD: { displayName: "Prismatic Shard", iconId: PlaceholderIcon, rarity: "Epic", category: "Material", maxStack: 50 },
+	GOLEM_CORE: { displayName: "Golem Core", iconId: PlaceholderIcon, rarity: "Epic", category: "Material", maxStack: 10 },
+	GOBLIN_RUNE_FRAGMENT: {
+		displayName: "Goblin Rune Fragment",
+		iconId: PlaceholderIcon,
+		rarity: "Rare",
+		category: "Material",
+		maxStack: 50,
+	},
+	MYTHIC_SCROLL_FRAGMENT: {
+		displayName: "Mythic Scroll Fragment",
+		iconId: PlaceholderIcon,
+		rarity: "Legendary",
+		category: "Material",
+		maxStack: 10,
+	},
+
+	RARE_GEM: { displayName: "Rare Gem", iconId: PlaceholderIcon, rarity: "Rare", category: "Gem", maxStack: 50 },
+	EPIC_GEM: { displayName: "Epic Gem", iconId: PlaceholderIcon, rarity: "Epic", category: "Gem", maxStack: 50 },
+
+	GOBLIN_EAR: { displayName: "Goblin Ear", iconId: PlaceholderIcon, rarity: "Common", category: "Quest", maxStack: 250 },
+
+	LEGENDARY_WEAPON_TOKEN: {
+		displayName: "Legendary Weapon Token",
+		iconId: PlaceholderIcon,
+		rarity: "Legendary",
+		category: "Token",
+		maxStack: 1,
+	},
+} as const satisfies Record<ItemKey, ItemMeta>;
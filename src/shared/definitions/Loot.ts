@@ -5,8 +5,8 @@
  * @description Static catalogue of weighted loot tables.
  */
 
+import { ItemKey } from "./Items";
 import { CurrencyKey } from "./ProfileDefinitions/Currency"; // optional: gold, gems, etc.
-type ItemKey = string; // replace with actual item keys from your game
 
 /*───────────────────────────────────────────────────────────────────────────*\
    1️⃣  Canonical list of loot-table keys
@@ -24,10 +24,13 @@ export type LootTableKey = (typeof LOOT_TABLE_KEYS)[number];
 /*───────────────────────────────────────────────────────────────────────────*\
    2️⃣  Metadata interfaces
 \*───────────────────────────────────────────────────────────────────────────*/
+/** Anything a loot table can drop */
+export type LootDropKey = ItemKey | CurrencyKey;
+
 /** Single weighted entry inside a loot table */
 export interface LootEntry {
 	/** What drops (an item key, currency key, etc.) */
-	drop: ItemKey | CurrencyKey;
+	drop: LootDropKey;
 	/** How many units, or [min, max] for a random range */
 	quantity: number | readonly [min: number, max: number];
 	/** Relative weight for roll-picking (higher = more likely) */
@@ -95,11 +95,27 @@ export const MessageLibrary: Record<string, MessageShape> = {
 		"warning",
 	),
 	AbilityUnlocked: createMessage("Ability Unlocked", "Congratulations! You have unlocked a new ability.", "success"),
+	AbilityUpgraded: createMessage("Ability Upgraded", "Your ability has reached a new rank.", "success"),
+	AbilityRankLocked: createMessage(
+		"Rank Locked",
+		"You need a higher level before this ability can be upgraded.",
+		"warning",
+	),
 	LevelUp: createMessage("Level Up", "Congratulations! You have leveled up.", "success"),
 	InsufficientResources: createMessage(
 		"Insufficient Resources",
 		"You do not have enough resources to perform this action.",
 		"error",
 	),
+	SessionLocked: createMessage(
+		"Session In Use",
+		"Your data is still in use on another server. Please rejoin in a moment.",
+		"error",
+	),
+	ProfileVersionUnsupported: createMessage(
+		"Update Required",
+		"Your data was saved by a newer version of the game. Please rejoin to reach an updated server.",
+		"error",
+	),
 	InvalidAction: createMessage("Invalid Action", "The action you attempted is invalid or not allowed.", "error"),
 };
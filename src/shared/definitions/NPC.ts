@@ -7,6 +7,7 @@
 
 import { AbilityKey } from "./ProfileDefinitions/Ability";
 import { LootTableKey } from "./Loot";
+import { CombatTeamKey, DamageResistances } from "./Combat";
 import { ReplicatedStorage } from "@rbxts/services";
 
 /* --------------------------------------------------------- Rig Template Folders --------------------------------------------------------- */
@@ -21,6 +22,91 @@ const SpiritTemplates = RigTemplateFolder.WaitForChild("Spirit");
 export const NPC_KEYS = ["BLOOD_TOAD", "ZOMBIE", "FATELESS", "MECHA_MONKEY", "STEAM_BOT", "ELEMENTAL"] as const;
 export type NPCKey = (typeof NPC_KEYS)[number];
 
+/* --------------------------------------------------------- NPC AI --------------------------------------------------------- */
+export const NPC_AI_PROFILES = ["melee", "ranged", "caster", "tank"] as const;
+export type NPCAIProfile = (typeof NPC_AI_PROFILES)[number];
+
+export const NPC_AI_STATES = ["idle", "wander", "chase", "attack", "flee", "returnHome"] as const;
+export type NPCAIState = (typeof NPC_AI_STATES)[number];
+
+/** How an NPC attacks once in range */
+export type NPCAttackMode = "melee" | "abilities";
+
+/** Per-profile behaviour tuning; distances in studs, times in seconds */
+export interface NPCAITuning {
+	/** Hostile entities closer than this are noticed */
+	aggroRadius: number;
+	/** Farthest the NPC follows a target from its spawn point before returning home */
+	leashRadius: number;
+	/** Distance the NPC attacks from */
+	attackRange: number;
+	/** Backs away from targets closer than this (ranged kiting); 0 stands its ground */
+	keepDistance: number;
+	attackInterval: number;
+	attackMode: NPCAttackMode;
+	/** Only casts abilities that launch a projectile */
+	projectileAbilitiesOnly: boolean;
+	/** Health fraction below which the NPC flees; 0 never flees */
+	fleeHealthFraction: number;
+	wanderRadius: number;
+	/** Seconds idle between wanders */
+	idleTime: number;
+	/** Seconds between taunts that drag the target into melee; undefined never taunts */
+	tauntInterval?: number;
+}
+
+export const NPCAITuningMap: Readonly<Record<NPCAIProfile, NPCAITuning>> = {
+	melee: {
+		aggroRadius: 40,
+		leashRadius: 80,
+		attackRange: 5,
+		keepDistance: 0,
+		attackInterval: 1.5,
+		attackMode: "melee",
+		projectileAbilitiesOnly: false,
+		fleeHealthFraction: 0.15,
+		wanderRadius: 20,
+		idleTime: 4,
+	},
+	ranged: {
+		aggroRadius: 60,
+		leashRadius: 90,
+		attackRange: 45,
+		keepDistance: 20,
+		attackInterval: 2,
+		attackMode: "abilities",
+		projectileAbilitiesOnly: true,
+		fleeHealthFraction: 0.2,
+		wanderRadius: 20,
+		idleTime: 4,
+	},
+	caster: {
+		aggroRadius: 60,
+		leashRadius: 90,
+		attackRange: 35,
+		keepDistance: 12,
+		attackInterval: 2.5,
+		attackMode: "abilities",
+		projectileAbilitiesOnly: false,
+		fleeHealthFraction: 0.25,
+		wanderRadius: 15,
+		idleTime: 5,
+	},
+	tank: {
+		aggroRadius: 35,
+		leashRadius: 70,
+		attackRange: 6,
+		keepDistance: 0,
+		attackInterval: 2,
+		attackMode: "melee",
+		projectileAbilitiesOnly: false,
+		fleeHealthFraction: 0,
+		wanderRadius: 10,
+		idleTime: 6,
+		tauntInterval: 8,
+	},
+};
+
 /** Compile-time template metadata */
 export interface NPCMeta {
 	/** Display name for UI & lore */
@@ -38,9 +124,13 @@ export interface NPCMeta {
 	abilities: AbilityKey[];
 	/** Loot-table key rolled on death */
 	lootTable: LootTableKey;
+	/** Combat team; defaults to "Monsters" */
+	team?: CombatTeamKey;
+	/** Fraction of each damage type ignored, e.g. `{ fire: 0.5 }`; negative values are weaknesses */
+	resistances?: DamageResistances;
 
-	/** Optional behaviour flags or AI profiles */
-	aiProfile?: "melee" | "ranged" | "caster" | "tank";
+	/** AI profile tuning the NPC's behaviour; defaults to "melee" */
+	aiProfile?: NPCAIProfile;
 	/** Cosmetic tag for the Nametag component, VFX themes, etc. */
 	theme?: "undead" | "goblin" | "construct" | "spirit" | "golem" | "robot" | "mechanical";
 }
@@ -96,6 +186,7 @@ export const NPCMetaMap: Readonly<Record<NPCKey, NPCMeta>> = {
 		},
 		abilities: ["ice_shard", "fireball"],
 		lootTable: "ZOMBIE_COMMON",
+		resistances: { physical: 0.1, lightning: -0.25 },
 	},
 	STEAM_BOT: {
 		displayName: "Steam Bot",
@@ -108,6 +199,7 @@ export const NPCMetaMap: Readonly<Record<NPCKey, NPCMeta>> = {
 		},
 		abilities: ["lightning_bolt", "earthquake"],
 		lootTable: "ZOMBIE_COMMON",
+		resistances: { physical: 0.2, fire: 0.25, lightning: -0.25 },
 		aiProfile: "tank",
 		theme: "construct",
 	},
@@ -122,6 +214,7 @@ export const NPCMetaMap: Readonly<Record<NPCKey, NPCMeta>> = {
 		},
 		abilities: ["fireball", "ice_shard", "lightning_bolt"],
 		lootTable: "ZOMBIE_COMMON",
+		resistances: { fire: 0.5, ice: 0.5, lightning: 0.5 },
 		aiProfile: "caster",
 		theme: "spirit",
 	},
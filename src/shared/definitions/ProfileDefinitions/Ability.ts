@@ -19,9 +19,12 @@
 import { GameImages } from "shared/assets";
 import { AnimationKey } from "shared/definitions/Animation";
 import { SSEntity } from "shared/types/SSEntity";
+import type { BeamKey } from "shared/definitions/Beams";
+import type { ProjectileKey } from "shared/definitions/Projectile";
+import type { AbilityRankScaling } from "./AbilityRanks";
 
 // Ability Keys
-export const ABILITY_KEYS = ["fireball", "ice_shard", "lightning_bolt", "earthquake", "melee"] as const;
+export const ABILITY_KEYS = ["fireball", "ice_shard", "lightning_bolt", "earthquake", "melee", "soul_drain"] as const;
 
 // Key Type
 export type AbilityKey = (typeof ABILITY_KEYS)[number];
@@ -36,6 +39,8 @@ export type AbilityCastContext = {
 	caster: SSEntity;
 	startPosition: Vector3; // Starting position of the ability cast
 	target?: SSEntity | undefined; // Target entity, if applicable
+	rank: number; // Caster's rank in the ability
+	power: number; // basePower scaled to the caster's rank
 };
 
 // Ability Metadata Interface
@@ -50,6 +55,11 @@ export interface AbilityMeta {
 		mana: number; // Mana cost for the ability
 		stamina: number; // Stamina cost for the ability
 	};
+	channelDuration?: number; // Seconds onTick runs for channeled abilities
+	tickInterval?: number; // Seconds between onTick calls while channeling
+	rankScaling?: Partial<AbilityRankScaling>; // Overrides the default per-rank scaling
+	projectile?: ProjectileKey; // Launched toward the target (or facing direction) on cast, dealing `power`
+	beam?: BeamKey; // Tethered to the target on cast; drain beams move `power` per interval; needs a hostile target in range
 	onStart: (context: AbilityCastContext) => void; // Optional start function for initialization
 	onTick?: (context: AbilityCastContext, deltaTime: number) => void; // Optional tick function for continuous effects
 	onEnd?: (context: AbilityCastContext) => void; // Optional end function for cleanup
@@ -67,6 +77,7 @@ export const AbilitiesMeta = {
 			mana: 20, // Example mana cost
 			stamina: 10, // Example stamina cost
 		},
+		projectile: "Fireball",
 		onStart: ({ caster, startPosition }) => {
 			print(`Fireball cast started by ${caster.GetFullName()} at position ${startPosition}`);
 			// Additional logic for starting the fireball cast can be added here
@@ -83,6 +94,7 @@ export const AbilitiesMeta = {
 			mana: 25, // Example mana cost
 			stamina: 25, // Example stamina cost
 		},
+		projectile: "IceShard",
 		onStart: ({ caster, startPosition }) => {
 			print(`Ice Shard cast started by ${caster.GetFullName()} at position ${startPosition}`);
 			// Additional logic for starting the ice shard cast can be added here
@@ -99,6 +111,7 @@ export const AbilitiesMeta = {
 			mana: 25, // Example mana cost
 			stamina: 15, // Example stamina cost
 		},
+		projectile: "LightningBolt",
 		onStart: ({ caster, startPosition }) => {
 			print(`Lightning Bolt cast started by ${caster.GetFullName()} at position ${startPosition}`);
 			// Additional logic for starting the lightning bolt cast can be added here
@@ -115,6 +128,8 @@ export const AbilitiesMeta = {
 			mana: 30, // Example mana cost
 			stamina: 20, // Example stamina cost
 		},
+		channelDuration: 2,
+		tickInterval: 0.5,
 		onStart: ({ caster, startPosition }) => {
 			print(`Earthquake cast started by ${caster.GetFullName()} at position ${startPosition}`);
 			// Additional logic for starting the earthquake cast can be added here
@@ -136,6 +151,29 @@ export const AbilitiesMeta = {
 			// Additional logic for starting the melee attack can be added here
 		},
 	},
+	soul_drain: {
+		displayName: "Soul Drain",
+		iconId: GameImages.Ability.Blood_Siphon,
+		animationKey: "HallowHold", // Replace with actual animation key
+		description: "Tethers to an enemy and siphons its health while the tether holds.",
+		cooldown: 12,
+		basePower: 5,
+		cost: {
+			mana: 30,
+			stamina: 0,
+		},
+		beam: "SoulDrain",
+		onStart: ({ caster, target }) => {
+			print(`Soul Drain tethered ${caster.GetFullName()} to ${target?.GetFullName()}`);
+		},
+	},
 } as const satisfies Record<AbilityKey, AbilityMeta>;
 
-export const DefaultAbilities = ["fireball", "ice_shard", "lightning_bolt", "earthquake", "melee"] as AbilityKey[];
+export const DefaultAbilities = [
+	"fireball",
+	"ice_shard",
+	"lightning_bolt",
+	"earthquake",
+	"melee",
+	"soul_drain",
+] as AbilityKey[];
@@ -0,0 +1,111 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        AbilityRanks.ts
+ * @module      AbilityRanks
+ * @layer       Shared/Definitions/Profile
+ * @description Ability ranks stored in the profile, per-rank scaling of power, cost and cooldown,
+ *              and the level/currency requirements for each upgrade.
+ */
+
+import { ABILITY_KEYS, AbilitiesMeta, AbilityKey, AbilityMeta } from "./Ability";
+import { CurrencyKey } from "./Currency";
+
+export const MIN_ABILITY_RANK = 1;
+export const MAX_ABILITY_RANK = 5;
+
+/** Current rank of every ability, replicated as the `AbilityRanks` profile bucket */
+export type AbilityRanksDTO = Record<AbilityKey, number>;
+
+export const DefaultAbilityRanks = ABILITY_KEYS.reduce<AbilityRanksDTO>((obj, key) => {
+	obj[key] = MIN_ABILITY_RANK;
+	return obj;
+}, {} as AbilityRanksDTO);
+
+/** Fractional change per rank above 1 (power 0.2 = +20% per rank, cooldown -0.05 = 5% shorter per rank) */
+export interface AbilityRankScaling {
+	power: number;
+	cost: number;
+	cooldown: number;
+}
+
+export const DefaultAbilityRankScaling: AbilityRankScaling = {
+	power: 0.2,
+	cost: 0.1,
+	cooldown: -0.05,
+};
+
+/** Levels between each rank's unlock; rank 2 unlocks at level 5, rank 3 at level 10, ... */
+export const ABILITY_RANK_LEVEL_STEP = 5;
+export const ABILITY_UPGRADE_CURRENCY: CurrencyKey = "GOLD";
+export const ABILITY_UPGRADE_BASE_COST = 100;
+
+/** An ability's values at a given rank */
+export interface AbilityRankStats {
+	rank: number;
+	power: number;
+	cooldown: number;
+	cost: {
+		mana: number;
+		stamina: number;
+	};
+}
+
+/** What it takes to reach a rank */
+export interface AbilityUpgradeRequirement {
+	rank: number;
+	requiredLevel: number;
+	currency: CurrencyKey;
+	amount: number;
+}
+
+/** Current values, next-rank values and what the next rank costs; next fields are undefined at max rank */
+export interface AbilityRankPreview {
+	current: AbilityRankStats;
+	next?: AbilityRankStats;
+	requirement?: AbilityUpgradeRequirement;
+}
+
+export function isValidAbilityRank(rank: number): boolean {
+	return rank >= MIN_ABILITY_RANK && rank <= MAX_ABILITY_RANK && rank === math.floor(rank);
+}
+
+/** Scales an ability's base values to a rank (clamped to the valid range) */
+export function getAbilityRankStats(key: AbilityKey, rank: number): AbilityRankStats {
+	const meta: AbilityMeta = AbilitiesMeta[key];
+	const scaling = { ...DefaultAbilityRankScaling, ...meta.rankScaling };
+	const clampedRank = math.clamp(math.floor(rank), MIN_ABILITY_RANK, MAX_ABILITY_RANK);
+	const steps = clampedRank - MIN_ABILITY_RANK;
+
+	return {
+		rank: clampedRank,
+		power: math.floor(meta.basePower * (1 + scaling.power * steps)),
+		cooldown: math.max(0, meta.cooldown * (1 + scaling.cooldown * steps)),
+		cost: {
+			mana: math.ceil(meta.cost.mana * (1 + scaling.cost * steps)),
+			stamina: math.ceil(meta.cost.stamina * (1 + scaling.cost * steps)),
+		},
+	};
+}
+
+/** Requirement to upgrade into `rank`; undefined for rank 1 or past the max */
+export function getAbilityUpgradeRequirement(rank: number): AbilityUpgradeRequirement | undefined {
+	if (rank <= MIN_ABILITY_RANK || !isValidAbilityRank(rank)) return undefined;
+
+	return {
+		rank,
+		requiredLevel: (rank - MIN_ABILITY_RANK) * ABILITY_RANK_LEVEL_STEP,
+		currency: ABILITY_UPGRADE_CURRENCY,
+		amount: ABILITY_UPGRADE_BASE_COST * 2 ** (rank - 2),
+	};
+}
+
+/** Builds the current/next rank preview shown on the hotbar and Character screen */
+export function getAbilityRankPreview(key: AbilityKey, rank: number): AbilityRankPreview {
+	const requirement = getAbilityUpgradeRequirement(rank + 1);
+	return {
+		current: getAbilityRankStats(key, rank),
+		next: requirement ? getAbilityRankStats(key, requirement.rank) : undefined,
+		requirement,
+	};
+}
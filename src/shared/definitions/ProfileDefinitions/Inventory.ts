@@ -0,0 +1,45 @@
+/// <reference types="@rbxts/types" />
+
+/**
+ * @file        Inventory.ts
+ * @module      Inventory
+ * @layer       Shared/Definitions/Profile
+ * @description Slot-based inventory stored in the player profile, and stack limits from the item catalog.
+ */
+
+import { ItemKey, ItemMeta, ItemMetaMap } from "shared/definitions/Items";
+
+/** One stack of a single item occupying an inventory slot */
+export interface InventoryStack {
+	Slot: number; // 0-based slot index
+	ItemId: ItemKey;
+	Quantity: number;
+}
+
+export interface InventoryDTO {
+	Capacity: number; // Number of usable slots
+	Stacks: InventoryStack[]; // Occupied slots only, in no particular order
+}
+
+export const DefaultInventory: InventoryDTO = {
+	Capacity: 50,
+	Stacks: [],
+};
+
+export function getItemMaxStack(itemId: ItemKey): number {
+	const meta: ItemMeta | undefined = ItemMetaMap[itemId];
+	return meta?.maxStack ?? 1;
+}
+
+/** Stack occupying the given slot, if any */
+export function getStackInSlot(inventory: InventoryDTO, slot: number): InventoryStack | undefined {
+	return inventory.Stacks.find((stack) => stack.Slot === slot);
+}
+
+/** Lowest free slot below capacity, if any */
+export function findEmptySlot(inventory: InventoryDTO): number | undefined {
+	for (let slot = 0; slot < inventory.Capacity; slot++) {
+		if (!getStackInSlot(inventory, slot)) return slot;
+	}
+	return undefined;
+}
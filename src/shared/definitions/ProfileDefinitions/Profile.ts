@@ -8,18 +8,38 @@
  */
 
 import { AbilityKey, CurrencyKey, PlayerSettings } from "..";
-import { AttributesDTO } from "./Attributes";
-import { ProgressionDTO } from "./Progression";
+import { DefaultAbilities } from "./Ability";
+import { AbilityRanksDTO, DefaultAbilityRanks } from "./AbilityRanks";
+import { AttributesDTO, DefaultAttributes } from "./Attributes";
+import { DefaultCurrency } from "./Currency";
+import { DefaultInventory, InventoryDTO } from "./Inventory";
+import { DefaultProgression, ProgressionDTO } from "./Progression";
+import { DefaultSettings } from "./Settings";
 
 // shared/ProfileDataTypes.ts
-export const ProfileDataKeys = ["Abilities", "Attributes", "Settings", "Progression", "Currency"] as const;
+export const ProfileDataKeys = ["Abilities", "AbilityRanks", "Attributes", "Settings", "Progression", "Currency", "Inventory"] as const;
 export type ProfileDataKey = (typeof ProfileDataKeys)[number];
 
 /** Shape of each bucket inside the player’s ProfileService blob */
 export interface ProfileDataMap {
 	Abilities: AbilityKey[];
+	AbilityRanks: AbilityRanksDTO;
 	Attributes: AttributesDTO;
 	Progression: ProgressionDTO;
 	Settings: PlayerSettings;
 	Currency: Record<CurrencyKey, number>; // Dynamic currency map
+	Inventory: InventoryDTO;
+}
+
+/** Produce a fresh profile populated from each bucket's shared defaults. */
+export function createProfileData(): ProfileDataMap {
+	return {
+		Abilities: [...DefaultAbilities],
+		AbilityRanks: { ...DefaultAbilityRanks },
+		Attributes: { ...DefaultAttributes },
+		Progression: { ...DefaultProgression },
+		Settings: { ...DefaultSettings },
+		Currency: { ...DefaultCurrency },
+		Inventory: { ...DefaultInventory, Stacks: [] },
+	};
 }
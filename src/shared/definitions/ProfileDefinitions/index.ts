@@ -6,7 +6,9 @@
  */
 
 export * from "./Ability";
+export * from "./AbilityRanks";
 export * from "./Attributes";
 export * from "./Currency";
+export * from "./Inventory";
 export * from "./Profile";
 export * from "./Settings";
@@ -1,4 +1,6 @@
 import { ReplicatedStorage } from "@rbxts/services";
+import type { SSEntity } from "shared/types/SSEntity";
+import type { DamageTypeKey } from "./Combat";
 
 let projectilesFolder = ReplicatedStorage.FindFirstChild("Projectiles", true);
 while (!projectilesFolder) {
@@ -14,18 +16,50 @@ warn(`Projectiles folder found: ${projectilesFolder.GetFullName()}`);
 export const ProjectileKeys = ["IceShard", "Fireball", "LightningBolt"] as const;
 export type ProjectileKey = (typeof ProjectileKeys)[number];
 
+/** Live state of a server-simulated projectile, passed to its hooks. */
+export interface ProjectileState {
+	readonly id: string;
+	readonly key: ProjectileKey;
+	readonly caster?: SSEntity;
+	readonly damage: number;
+	position: Vector3;
+	velocity: Vector3;
+	readonly spawnedAt: number; // Workspace.GetServerTimeNow() at launch
+	readonly target?: SSEntity; // locked target that homing steers toward
+}
+
+/** What a projectile struck; `target` is set when the part belongs to a registered entity */
+export interface ProjectileHit {
+	readonly part: BasePart;
+	readonly position: Vector3;
+	readonly normal: Vector3;
+	readonly target?: SSEntity;
+}
+
+/** Area damage around the impact that ends a projectile */
+export interface ProjectileSplash {
+	readonly radius: number; // studs
+	readonly falloff: number; // damage multiplier at the edge of the radius, 1 means no falloff
+}
+
 /** Blueprint for a projectile archetype. */
 export interface ProjectileDefinition {
-	readonly part: BasePart; // the part that represents the projectile
+	readonly part: BasePart; // visual template, cloned and moved on clients only
 	readonly speed: number; // studs per second
 	readonly damage: number; // damage dealt on hit
+	readonly damageType: DamageTypeKey; // damage type passed to CombatService
 	readonly lifetime: number; // seconds before despawn
-	readonly tweenInfo: TweenInfo; // tweening properties for movement
+	readonly tweenInfo: TweenInfo; // client-side pulse of the visual
 	readonly physicsType?: "Pull" | "Repel" | "Chain"; // how it interacts with other objects
-	readonly onTick?: (projectile: BasePart, dt: number) => void; // runtime hook
-	readonly onStart?: (projectile: BasePart) => void; // called when projectile
-	readonly onHit?: (projectile: BasePart, target: BasePart) => void; // called when hitting a target
-	readonly onEnd?: (projectile: BasePart) => void; // called when projectile despawns
+	readonly pierce?: number; // enemies it passes through before stopping
+	readonly splash?: ProjectileSplash; // area damage when it stops on a hit
+	readonly homing?: number; // degrees per second it turns toward a locked target
+	readonly gravity?: number; // downward acceleration in studs/s², arcs the path
+	readonly ricochet?: number; // times it bounces off world geometry
+	readonly onTick?: (projectile: ProjectileState, dt: number) => void; // runtime hook (server)
+	readonly onStart?: (projectile: ProjectileState) => void; // called when the projectile launches
+	readonly onHit?: (projectile: ProjectileState, hit: ProjectileHit) => void; // called when hitting a target or the world
+	readonly onEnd?: (projectile: ProjectileState) => void; // called when the projectile despawns
 }
 
 export const ProjectileCatalog = {
@@ -34,23 +68,22 @@ export const ProjectileCatalog = {
 		color: new Color3(0.8, 0.9, 1),
 		speed: 100,
 		damage: 20,
+		damageType: "ice",
 		lifetime: 5,
 		physicsType: "Pull",
+		pierce: 2,
 		tweenInfo: new TweenInfo(0.5, Enum.EasingStyle.Sine, Enum.EasingDirection.InOut, -1, true),
 		onTick: (projectile, dt) => {
 			// Add ice shard specific behavior here
-			//projectile.Velocity = projectile.CFrame.LookVector.mul(projectile.Speed);
 		},
 		onStart: (projectile) => {
 			print("IceShard started");
 		},
-		onHit: (projectile, target) => {
-			print(`IceShard hit ${target.Name}`);
-			//target.TakeDamage(projectile.Damage);
+		onHit: (projectile, hit) => {
+			print(`IceShard hit ${hit.target?.Name ?? hit.part.Name}`);
 		},
 		onEnd: (projectile) => {
 			print("IceShard despawned");
-			projectile.Destroy();
 		},
 	},
 	Fireball: <ProjectileDefinition>{
@@ -58,23 +91,23 @@ export const ProjectileCatalog = {
 		color: new Color3(1, 0.5, 0),
 		speed: 120,
 		damage: 30,
+		damageType: "fire",
 		lifetime: 4,
 		physicsType: "Repel",
+		splash: { radius: 12, falloff: 0.4 },
+		gravity: 20,
 		tweenInfo: new TweenInfo(0.3, Enum.EasingStyle.Linear, Enum.EasingDirection.InOut, -1, true),
 		onTick: (projectile, dt) => {
 			// Add fireball specific behavior here
-			//projectile.Velocity = projectile.CFrame.LookVector.mul(projectile.Speed);
 		},
 		onStart: (projectile) => {
 			print("Fireball started");
 		},
-		onHit: (projectile, target) => {
-			print(`Fireball hit ${target.Name}`);
-			//target.TakeDamage(projectile.Damage);
+		onHit: (projectile, hit) => {
+			print(`Fireball hit ${hit.target?.Name ?? hit.part.Name}`);
 		},
 		onEnd: (projectile) => {
 			print("Fireball despawned");
-			projectile.Destroy();
 		},
 	},
 	LightningBolt: <ProjectileDefinition>{
@@ -82,23 +115,22 @@ export const ProjectileCatalog = {
 		color: new Color3(1, 1, 0),
 		speed: 150,
 		damage: 40,
+		damageType: "lightning",
 		lifetime: 3,
 		physicsType: "Chain",
+		homing: 180,
 		tweenInfo: new TweenInfo(0.2, Enum.EasingStyle.Linear, Enum.EasingDirection.InOut, -1, true),
 		onTick: (projectile, dt) => {
 			// Add lightning bolt specific behavior here
-			//projectile.Velocity = projectile.CFrame.LookVector.mul(projectile.Speed);
 		},
 		onStart: (projectile) => {
 			print("LightningBolt started");
 		},
-		onHit: (projectile, target) => {
-			print(`LightningBolt hit ${target.Name}`);
-			//target.TakeDamage(projectile.Damage);
+		onHit: (projectile, hit) => {
+			print(`LightningBolt hit ${hit.target?.Name ?? hit.part.Name}`);
 		},
 		onEnd: (projectile) => {
 			print("LightningBolt despawned");
-			projectile.Destroy();
 		},
 	},
 } as const;
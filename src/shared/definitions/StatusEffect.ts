@@ -13,6 +13,8 @@
  * @lastUpdated 2025-07-03 by Trembus – Initial creation
  */
 
+import type { DamageTypeKey } from "./Combat";
+
 export const STATUS_EFFECT_KEYS = [
 	"Poisoned",
 	"Burning",
@@ -27,6 +29,30 @@ export const STATUS_EFFECT_KEYS = [
 ] as const;
 
 export type StatusEffectKey = (typeof STATUS_EFFECT_KEYS)[number];
+
+/**
+ * How re-applying an active effect behaves:
+ * - refresh: one instance, its duration restarts
+ * - intensity: one instance, gains a stack (amount scales with stacks) and restarts
+ * - independent: each application runs its own timer alongside the others
+ */
+export const STATUS_STACKING_POLICIES = ["refresh", "intensity", "independent"] as const;
+export type StatusStackingPolicy = (typeof STATUS_STACKING_POLICIES)[number];
+
+/** What an effect does while active */
+export const STATUS_EFFECT_BEHAVIORS = [
+	"DamageOverTime", // amount is a health delta per tick
+	"MovementLock", // WalkSpeed and JumpPower held at 0
+	"WalkSpeed", // amount added to WalkSpeed
+	"JumpPower", // amount added to JumpPower
+	"DamageModifier", // handled by CombatService via DamageStatusModifiers
+] as const;
+export type StatusEffectBehavior = (typeof STATUS_EFFECT_BEHAVIORS)[number];
+
+/** Broad groups used for cleansing and crowd-control rules */
+export const STATUS_EFFECT_CATEGORIES = ["CC", "DoT", "Buff"] as const;
+export type StatusEffectCategory = (typeof STATUS_EFFECT_CATEGORIES)[number];
+
 export interface StatusEffectMeta {
 	displayName: string;
 	iconId: string; // Asset ID for the icon
@@ -34,6 +60,12 @@ export interface StatusEffectMeta {
 	duration: number; // Duration in seconds
 	tickRate: number; // How often the effect applies its logic
 	amount: number; // Amount of effect applied per tick
+	behavior: StatusEffectBehavior;
+	category: StatusEffectCategory;
+	stacking: StatusStackingPolicy;
+	maxStacks: number; // Cap on intensity stacks or independent instances
+	damageType?: DamageTypeKey; // DamageOverTime only
+	positive: boolean; // Buff (true) or debuff (false), for grouping in the HUD
 }
 
 export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
@@ -44,6 +76,12 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 1,
 		amount: -2,
+		behavior: "DamageOverTime",
+		category: "DoT",
+		stacking: "intensity",
+		maxStacks: 5,
+		damageType: "physical",
+		positive: false,
 	},
 	Burning: {
 		displayName: "Burning",
@@ -52,6 +90,12 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 1,
 		amount: -3,
+		behavior: "DamageOverTime",
+		category: "DoT",
+		stacking: "refresh",
+		maxStacks: 1,
+		damageType: "fire",
+		positive: false,
 	},
 	Frozen: {
 		displayName: "Frozen",
@@ -60,6 +104,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 3,
 		tickRate: 0.5,
 		amount: 0, // No damage, just immobilization
+		behavior: "MovementLock",
+		category: "CC",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: false,
 	},
 	Stunned: {
 		displayName: "Stunned",
@@ -68,6 +117,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 2,
 		tickRate: 0.5,
 		amount: 0, // No damage, just immobilization
+		behavior: "MovementLock",
+		category: "CC",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: false,
 	},
 	Raged: {
 		displayName: "Raged",
@@ -76,6 +130,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 1,
 		amount: 5, // Increases damage dealt
+		behavior: "DamageModifier",
+		category: "Buff",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: true,
 	},
 	Bleeding: {
 		displayName: "Bleeding",
@@ -84,6 +143,12 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 1,
 		amount: -4,
+		behavior: "DamageOverTime",
+		category: "DoT",
+		stacking: "independent",
+		maxStacks: 3,
+		damageType: "physical",
+		positive: false,
 	},
 	SpeedBoost: {
 		displayName: "Speed Boost",
@@ -92,6 +157,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 0.5,
 		amount: 10, // Increases movement speed
+		behavior: "WalkSpeed",
+		category: "Buff",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: true,
 	},
 	Invulnerable: {
 		displayName: "Invulnerable",
@@ -100,6 +170,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 0.5,
 		amount: 0, // No damage taken
+		behavior: "DamageModifier",
+		category: "Buff",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: true,
 	},
 	PowerBoost: {
 		displayName: "Power Boost",
@@ -108,6 +183,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 0.5,
 		amount: 10, // Increases damage dealt
+		behavior: "DamageModifier",
+		category: "Buff",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: true,
 	},
 	JumpBoost: {
 		displayName: "Jump Boost",
@@ -116,6 +196,11 @@ export const StatusEffectMeta: Record<StatusEffectKey, StatusEffectMeta> = {
 		duration: 5,
 		tickRate: 0.5,
 		amount: 5, // Increases jump height
+		behavior: "JumpPower",
+		category: "Buff",
+		stacking: "refresh",
+		maxStacks: 1,
+		positive: true,
 	},
 } as const satisfies Record<StatusEffectKey, StatusEffectMeta>;
 export type StatusEffect = {
@@ -123,5 +208,15 @@ export type StatusEffect = {
 	meta: StatusEffectMeta;
 	startTime: number; // Timestamp when the effect started
 	active: boolean; // Whether the effect is currently active
+	stacks: number; // Intensity stacks or independent instances
+	expiresAt: number; // Server timestamp when the last instance ends
+};
+
+/** Replicated per-effect summary of an entity's active instances (server timestamps) */
+export type StatusEffectDTO = {
+	key: StatusEffectKey;
+	stacks: number;
+	startTime: number;
+	expiresAt: number;
 };
 export type StatusEffectMap = Map<StatusEffectKey, StatusEffect>;
@@ -14,7 +14,9 @@ export * from "./PanelSlots";
 // Modules
 export * from "./Animation";
 export * from "./Codon";
+export * from "./Combat";
 export * from "./GenericUIInterfaces";
+export * from "./Items";
 export * from "./Loot";
 export * from "./Message";
 export * from "./NPC";
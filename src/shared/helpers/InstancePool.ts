@@ -0,0 +1,110 @@
+/**
+ * @file src/shared/helpers/InstancePool.ts
+ * @module InstancePool
+ * @layer Shared/Helpers
+ * @description Reuses instances that are created and destroyed often (loot drops, projectile visuals)
+ * instead of building a fresh one each time. Idle instances are unparented and reset on release.
+ */
+
+export interface InstancePoolOptions<T extends Instance> {
+	/** Builds a new instance when the pool has none idle */
+	readonly create: () => T;
+	/** Restores a released instance to its freshly created state */
+	readonly reset?: (instance: T) => void;
+	/** Most idle instances kept; releases beyond it are destroyed. Unlimited by default */
+	readonly maxSize?: number;
+}
+
+export interface InstancePoolMetrics {
+	/** Acquires served by an idle instance */
+	readonly hits: number;
+	/** Acquires that had to create an instance */
+	readonly misses: number;
+	/** Releases destroyed because the pool was full */
+	readonly discarded: number;
+	readonly available: number;
+	readonly inUse: number;
+}
+
+export class InstancePool<T extends Instance> {
+	private readonly options: InstancePoolOptions<T>;
+	private available: T[] = [];
+	private inUse = new Set<T>();
+	private hits = 0;
+	private misses = 0;
+	private discarded = 0;
+
+	constructor(options: InstancePoolOptions<T>) {
+		this.options = options;
+	}
+
+	/**
+	 * Creates idle instances ahead of time, up to the pool's max size
+	 */
+	public prewarm(count: number): void {
+		const maxSize = this.options.maxSize ?? math.huge;
+		while (this.available.size() < math.min(count, maxSize)) {
+			this.available.push(this.options.create());
+		}
+	}
+
+	/**
+	 * Takes an idle instance, or creates one when none is left. The caller parents it.
+	 */
+	public acquire(): T {
+		const instance = this.available.pop();
+		if (instance) {
+			this.hits++;
+		} else {
+			this.misses++;
+		}
+
+		const acquired = instance ?? this.options.create();
+		this.inUse.add(acquired);
+		return acquired;
+	}
+
+	/**
+	 * Returns an instance to the pool. Returns false if it was not acquired from this pool.
+	 */
+	public release(instance: T): boolean {
+		if (!this.inUse.delete(instance)) {
+			warn(`InstancePool: ${instance.Name} was not acquired from this pool`);
+			return false;
+		}
+
+		if (this.available.size() >= (this.options.maxSize ?? math.huge)) {
+			this.discarded++;
+			instance.Destroy();
+			return true;
+		}
+
+		instance.Parent = undefined;
+		this.options.reset?.(instance);
+		this.available.push(instance);
+		return true;
+	}
+
+	/**
+	 * Destroys every idle instance; instances in use are left to their holders
+	 */
+	public clear(): void {
+		for (const instance of this.available) {
+			instance.Destroy();
+		}
+		this.available = [];
+	}
+
+	/**
+	 * Gets hit/miss counters and the current pool occupancy
+	 */
+	public getMetrics(): InstancePoolMetrics {
+		return {
+			hits: this.hits,
+			misses: this.misses,
+			discarded: this.discarded,
+			available: this.available.size(),
+			inUse: this.inUse.size(),
+		};
+	}
+}
@@ -1,18 +1,18 @@
 import { CollectionService, PhysicsService, Workspace } from "@rbxts/services";
+import { CombatTeamKey, ENTITY_TEAM_ATTRIBUTE, SSENTITY_TAG } from "shared/definitions/Combat";
 import { SSEntity } from "shared/types/SSEntity";
 
 export type RigInfo = {
 	rigId: string;
 	rig: SSEntity;
 	distance: number;
-	team?: string;
+	team?: CombatTeamKey;
 };
 
 export namespace SSEntityHelper {
 	/** Returns every rig inside radius. Falls back to registry scan if Octree absent. */
 	export function getRigsInRadius(origin: CFrame, radius: number): RigInfo[] {
-		warn(`Getting rigs in radius ${radius} from ${origin.Position}`);
-		const ssEntities = CollectionService.GetTagged("SSEntity") as SSEntity[];
+		const ssEntities = CollectionService.GetTagged(SSENTITY_TAG) as SSEntity[];
 		return ssEntities.reduce<RigInfo[]>((acc, rig) => {
 			if ((rig as SSEntity) === undefined) {
 				return acc;
@@ -20,7 +20,8 @@ export namespace SSEntityHelper {
 			const rigPosition = rig.GetPivot().Position;
 			const distance = rigPosition.sub(origin.Position).Magnitude;
 			if (distance <= radius) {
-				acc.push({ rigId: rig.GetFullName(), rig, distance });
+				const team = rig.GetAttribute(ENTITY_TEAM_ATTRIBUTE) as CombatTeamKey | undefined;
+				acc.push({ rigId: rig.GetFullName(), rig, distance, team });
 			}
 			return acc;
 		}, []);
@@ -54,21 +55,32 @@ export namespace SSEntityHelper {
 		}, []);
 	}
 
+	/** Applies a temporary VectorForce to a part, cleaned up after `duration` seconds. */
+	export function applyForceToPart(
+		part: BasePart,
+		force: Vector3,
+		duration: number,
+		relativeTo: Enum.ActuatorRelativeTo = Enum.ActuatorRelativeTo.World,
+	): void {
+		const vectorForce = new Instance("VectorForce");
+		const attachment = new Instance("Attachment");
+		attachment.Parent = part;
+		vectorForce.Attachment0 = attachment;
+		vectorForce.Force = force;
+		vectorForce.RelativeTo = relativeTo;
+		vectorForce.ApplyAtCenterOfMass = true;
+		vectorForce.Parent = part;
+		vectorForce.Enabled = true;
+		task.delay(duration, () => {
+			vectorForce.Destroy();
+			attachment.Destroy();
+		});
+	}
+
 	export function pushUnanchoredPartsInRadius(origin: CFrame, radius: number): void {
 		const unanchoredParts = getUnanchoredPartsInRadius(origin, radius);
 		unanchoredParts.forEach(({ part }) => {
-			const force = new Instance("VectorForce");
-			const attachment = new Instance("Attachment");
-			attachment.Parent = part;
-			force.Attachment0 = attachment;
-			force.Force = new Vector3(0, 1000, 0);
-			force.ApplyAtCenterOfMass = true;
-			force.Parent = part;
-			force.Enabled = true;
-			task.delay(1, () => {
-				force.Destroy();
-				attachment.Destroy();
-			});
+			applyForceToPart(part, new Vector3(0, 1000, 0), 1, Enum.ActuatorRelativeTo.Attachment0);
 		});
 	}
 }
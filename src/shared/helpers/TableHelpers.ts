@@ -0,0 +1,17 @@
+/**
+ * @file src/shared/helpers/TableHelpers.ts
+ * @module TableHelpers
+ * @layer Shared/Helpers
+ * @description Helpers for copying plain data tables.
+ */
+
+/** Recursively copies a plain data table; instances and other non-table values are shared */
+export function deepCopy<T>(value: T): T {
+	if (!typeIs(value, "table")) return value;
+
+	const copy: Record<string, unknown> = {};
+	for (const [key, entry] of pairs(value as Record<string, unknown>)) {
+		copy[key] = deepCopy(entry);
+	}
+	return copy as T;
+}
@@ -12,7 +12,9 @@
  * * @since        0.1.0
  * * @lastUpdated  2025-07-11 by Trembus – Initial creation
  */
+export * from "./InstancePool";
 export * from "./RegistryHelpers";
 export * from "./PlayerCharacter";
 export * from "./RunCycle";
 export * from "./SSEntityHelpers";
+export * from "./TableHelpers";
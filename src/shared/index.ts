@@ -1,4 +1,5 @@
 export * from "./assets";
 export * from "./definitions";
 export * from "./helpers";
-export * from "./types";
\ No newline at end of file
+export * from "./types";
+export * from "./network";
\ No newline at end of file
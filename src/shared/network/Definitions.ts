@@ -0,0 +1,75 @@
+/**
+ * @file        src/shared/network/Definitions.ts
+ * @module      NetworkDefinitions
+ * @layer       Shared
+ * @description Typed contract for every remote exchanged between server and client.
+ */
+
+import type { MessageShape } from "shared/definitions/Message";
+import type { ResourceDTO, ResourceKey } from "shared/definitions/Resources";
+import type { StatusEffectDTO } from "shared/definitions/StatusEffect";
+import type { ProjectileKey } from "shared/definitions/Projectile";
+import type { AbilityKey } from "shared/definitions/ProfileDefinitions/Ability";
+import type { AttributeKey, AttributesDTO } from "shared/definitions/ProfileDefinitions/Attributes";
+import type { ProfileDataKey, ProfileDataMap } from "shared/definitions/ProfileDefinitions/Profile";
+
+/** Name of the ReplicatedStorage folder holding all remotes */
+export const REMOTES_FOLDER_NAME = "Remotes";
+
+/*──── Server → Client events ─────────────────────────────────────────*/
+export interface ServerEvents {
+	MessageReceived: (message: MessageShape) => void;
+	ResourceUpdated: (key: ResourceKey, data: ResourceDTO) => void;
+	/** Full profile, sent once after the player's data has loaded */
+	ProfileSnapshot: (data: ProfileDataMap) => void;
+	/** Single profile bucket, sent whenever the server mutates it */
+	ProfileUpdated: (key: ProfileDataKey, value: ProfileDataMap[ProfileDataKey]) => void;
+	/** Ability cooldown started; `endsAt` is in Workspace.GetServerTimeNow() time */
+	AbilityCooldown: (key: AbilityKey, endsAt: number) => void;
+	/** Full list of status effects on the player's character */
+	StatusEffectsUpdated: (effects: StatusEffectDTO[]) => void;
+	/** A projectile launched; clients simulate its visual from `spawnedAt` (server time) */
+	ProjectileSpawned: (id: string, key: ProjectileKey, origin: Vector3, velocity: Vector3, spawnedAt: number) => void;
+	/** A projectile's path changed (homing, ricochet); clients resimulate from `position` at `at` (server time) */
+	ProjectileUpdated: (id: string, position: Vector3, velocity: Vector3, at: number) => void;
+	/** A projectile ended at `position`; `hit` is false when it expired */
+	ProjectileDestroyed: (id: string, position: Vector3, hit: boolean) => void;
+}
+
+export const SERVER_EVENT_KEYS = [
+	"MessageReceived",
+	"ResourceUpdated",
+	"ProfileSnapshot",
+	"ProfileUpdated",
+	"AbilityCooldown",
+	"StatusEffectsUpdated",
+	"ProjectileSpawned",
+	"ProjectileUpdated",
+	"ProjectileDestroyed",
+] as const satisfies readonly (keyof ServerEvents)[];
+export type ServerEventKey = (typeof SERVER_EVENT_KEYS)[number];
+
+/*──── Client → Server request/response ───────────────────────────────*/
+export interface ClientFunctions {
+	ModifyAttribute: (key: AttributeKey, amount: number) => AttributesDTO | undefined;
+	/** Moves a stack to another slot, merging into or swapping with whatever is there */
+	MoveInventoryStack: (fromSlot: number, toSlot: number) => boolean;
+	/** Splits `quantity` off a stack into the first empty slot */
+	SplitInventoryStack: (slot: number, quantity: number) => boolean;
+	/** Casts an equipped ability, optionally at a target entity; false if rejected */
+	CastAbility: (key: AbilityKey, target?: Model) => boolean;
+	/** Reorders the equipped abilities; `order` must contain exactly the equipped keys */
+	ReorderAbilities: (order: AbilityKey[]) => boolean;
+	/** Spends currency to raise an ability one rank; false if rejected */
+	UpgradeAbility: (key: AbilityKey) => boolean;
+}
+
+export const CLIENT_FUNCTION_KEYS = [
+	"ModifyAttribute",
+	"MoveInventoryStack",
+	"SplitInventoryStack",
+	"CastAbility",
+	"ReorderAbilities",
+	"UpgradeAbility",
+] as const satisfies readonly (keyof ClientFunctions)[];
+export type ClientFunctionKey = (typeof CLIENT_FUNCTION_KEYS)[number];
@@ -0,0 +1,8 @@
+/**
+ * @file        src/shared/network/index.ts
+ * @module      Network
+ * @layer       Shared
+ * @description Barrel export for the shared network contract.
+ */
+
+export * from "./Definitions";